@@ -0,0 +1,127 @@
+/**
+ * Run Checkpoints
+ *
+ * Appends each QueryResult to results/<runId>.jsonl as soon as it completes,
+ * so an interrupted run can be resumed without repeating finished calls. The
+ * first line holds the run's query selection and trial count, so a resumed
+ * run samples the same queries and runs the same trials.
+ */
+
+import { readFile, appendFile, mkdir, rm } from "node:fs/promises";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { QueryResult } from "./types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+const defaultCheckpointDir = join(projectRoot, "results");
+
+/**
+ * How a run chose its queries and trials, recorded when its checkpoint is created
+ */
+export interface CheckpointMetadata {
+  /** Size of the random query sample */
+  sample?: number;
+  /** Seed the sample was drawn with */
+  seed?: number;
+  /** Trials per query × config pair */
+  repeat?: number;
+}
+
+export interface Checkpoint {
+  /** Missing in checkpoints written before metadata was recorded */
+  metadata?: CheckpointMetadata;
+  results: QueryResult[];
+}
+
+/**
+ * Path of the checkpoint file for a run
+ * @param dir - Directory holding checkpoints; defaults to results/
+ */
+export function checkpointPath(runId: string, dir = defaultCheckpointDir): string {
+  return join(dir, `${runId}.jsonl`);
+}
+
+/**
+ * Load the results checkpointed for a run, to resume it. A truncated last
+ * line (from a crash mid-write) is skipped.
+ * @throws Error if the run has no checkpoint, so a mistyped run id doesn't
+ * silently start the whole run over
+ */
+export async function loadCheckpoint(runId: string, dir = defaultCheckpointDir): Promise<Checkpoint> {
+  const path = checkpointPath(runId, dir);
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(
+        `No checkpoint for run ${runId} (${path}). Check the run id; a run that finished has no checkpoint left to resume.`
+      );
+    }
+    throw error;
+  }
+
+  const checkpoint: Checkpoint = { results: [] };
+  const lines = content.split("\n").filter((line) => line.trim().length > 0);
+  lines.forEach((line, index) => {
+    try {
+      const entry = JSON.parse(line) as QueryResult | { metadata: CheckpointMetadata };
+      if ("metadata" in entry) {
+        checkpoint.metadata = entry.metadata;
+      } else {
+        checkpoint.results.push(entry);
+      }
+    } catch {
+      console.warn(`Warning: Skipping unreadable checkpoint line ${index + 1}`);
+    }
+  });
+
+  return checkpoint;
+}
+
+/**
+ * Appends results to a run's checkpoint file, one JSON object per line
+ */
+export class CheckpointWriter {
+  private pending: Promise<void>;
+  private readonly path: string;
+
+  constructor(runId: string, metadata: CheckpointMetadata = {}, dir = defaultCheckpointDir) {
+    this.path = checkpointPath(runId, dir);
+    this.pending = this.prepare(metadata);
+  }
+
+  /**
+   * Start a new checkpoint with its metadata line, or make sure appends to an
+   * existing one start on a fresh line, even after a truncated write
+   */
+  private async prepare(metadata: CheckpointMetadata): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    const existing = await readFile(this.path, "utf-8").catch(() => "");
+    if (existing.length === 0) {
+      await appendFile(this.path, `${JSON.stringify({ metadata })}\n`, "utf-8");
+    } else if (!existing.endsWith("\n")) {
+      await appendFile(this.path, "\n", "utf-8");
+    }
+  }
+
+  /**
+   * Append a result. Appends are serialized so lines never interleave.
+   */
+  append(result: QueryResult): Promise<void> {
+    this.pending = this.pending.then(() =>
+      appendFile(this.path, `${JSON.stringify(result)}\n`, "utf-8")
+    );
+    return this.pending;
+  }
+}
+
+/**
+ * Delete a run's checkpoint once its consolidated results file is written
+ */
+export async function removeCheckpoint(runId: string, dir = defaultCheckpointDir): Promise<void> {
+  await rm(checkpointPath(runId, dir), { force: true });
+}
@@ -1,91 +1,209 @@
 /**
  * Search Configurations
- * 
- * Define different gateway + parameter combinations to test.
- * Each config has a unique ID for identification in results.
+ *
+ * Gateway + parameter combinations to test are defined in JSON or YAML files
+ * under configs/ (configs/default.yaml unless --config-file is given), so a
+ * different set can be run without a rebuild. Each config has a unique ID
+ * for identification in results.
+ *
+ * An entry with a `matrix` expands into the cross-product of its parameter
+ * values, one config per combination, with the swept values in the id.
+ *
+ * A file can also define HTTP gateways (`gateways`), so a search API can be
+ * benchmarked without writing a gateway class; see src/gateways/http.ts.
  */
 
-import type { SearchConfig } from "./types.js";
-
-export const configs: SearchConfig[] = [
-  // Tavily configurations
-  {
-    id: "tavily-basic",
-    gateway: "tavily",
-    parameters: {
-      searchDepth: "basic",
-      includeAnswer: false,
-      maxResults: 5,
-    },
-  },
-  {
-    id: "tavily-advanced",
-    gateway: "tavily",
-    parameters: {
-      searchDepth: "advanced",
-      includeAnswer: true,
-      maxResults: 5,
-    },
-  },
-
-  // Parallel configurations
-  {
-    id: "parallel-default",
-    gateway: "parallel",
-    parameters: {
-      max_results: 2,
-      max_chars_per_result: 4000,
-    },
-  },
-  {
-    id: "parallel-extended",
-    gateway: "parallel",
-    parameters: {
-      max_results: 5,
-      max_chars_per_result: 8000,
-    },
-  },
-
-  // Gemini Search configurations
-  {
-    id: "gemini-search-default",
-    gateway: "gemini-search",
-    parameters: {
-      model: "gemini-3-flash-preview",
-    },
-  },
-
-  // You.com configurations
-  {
-    id: "you-default",
-    gateway: "you",
-    parameters: {
-      count: 5,
-    },
-  },
-  {
-    id: "you-fresh",
-    gateway: "you",
-    parameters: {
-      count: 5,
-      freshness: "week",
-    },
-  },
-
-  // Perplexity configurations
-  {
-    id: "perplexity-default",
-    gateway: "perplexity",
-    parameters: {
-      max_results: 5,
-    },
-  },
-  {
-    id: "perplexity-fresh",
-    gateway: "perplexity",
-    parameters: {
-      max_results: 5,
-      search_recency_filter: "week",
-    },
-  },
-];
+import { readFile } from "node:fs/promises";
+import { join, dirname, extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse as parseYaml } from "yaml";
+import type { SearchConfig, GatewayLimits, GatewayFeature } from "./types.js";
+import { registerHttpGateway } from "./gateways/index.js";
+import { parseHttpGatewayDefinition } from "./gateways/http.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+/**
+ * Config file used when none is given
+ */
+export const defaultConfigPath = join(projectRoot, "configs", "default.yaml");
+
+/**
+ * A config as written in a config file, before matrix expansion
+ */
+interface ConfigEntry {
+  id: string;
+  gateway: string;
+  description?: string;
+  tags?: string[];
+  requires?: GatewayFeature[];
+  parameters?: Record<string, unknown>;
+  /** Parameter name → values to sweep */
+  matrix?: Record<string, unknown[]>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the shape of a config file entry
+ * @throws Error describing the first problem found
+ */
+function validateEntry(entry: unknown, where: string): ConfigEntry {
+  if (!isPlainObject(entry)) {
+    throw new Error(`${where} is not an object`);
+  }
+  if (typeof entry.id !== "string" || entry.id.trim().length === 0) {
+    throw new Error(`${where} has an invalid or empty "id"`);
+  }
+  const label = `${where} (${entry.id})`;
+
+  if (typeof entry.gateway !== "string" || entry.gateway.trim().length === 0) {
+    throw new Error(`${label} has an invalid or empty "gateway"`);
+  }
+  if (entry.description !== undefined && typeof entry.description !== "string") {
+    throw new Error(`${label} has a non-string "description"`);
+  }
+  if (
+    entry.tags !== undefined &&
+    (!Array.isArray(entry.tags) || entry.tags.some((tag) => typeof tag !== "string"))
+  ) {
+    throw new Error(`${label} has "tags" that are not a list of strings`);
+  }
+  if (
+    entry.requires !== undefined &&
+    (!Array.isArray(entry.requires) || entry.requires.some((feature) => typeof feature !== "string"))
+  ) {
+    throw new Error(`${label} has "requires" that is not a list of feature names`);
+  }
+  if (entry.parameters !== undefined && !isPlainObject(entry.parameters)) {
+    throw new Error(`${label} has "parameters" that are not an object`);
+  }
+  if (entry.matrix !== undefined) {
+    if (!isPlainObject(entry.matrix) || Object.keys(entry.matrix).length === 0) {
+      throw new Error(`${label} has a "matrix" that is not a non-empty object`);
+    }
+    for (const [name, values] of Object.entries(entry.matrix)) {
+      if (!Array.isArray(values) || values.length === 0) {
+        throw new Error(`${label} matrix "${name}" must be a non-empty list of values`);
+      }
+      if (isPlainObject(entry.parameters) && name in entry.parameters) {
+        throw new Error(`${label} sets "${name}" in both "parameters" and "matrix"`);
+      }
+    }
+  }
+
+  return entry as unknown as ConfigEntry;
+}
+
+function formatMatrixValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Expand a config entry into configs: one for a plain entry, the
+ * cross-product of the matrix values otherwise
+ */
+function expandConfig(entry: ConfigEntry): SearchConfig[] {
+  const base = {
+    gateway: entry.gateway,
+    ...(entry.description !== undefined && { description: entry.description }),
+    ...(entry.tags !== undefined && { tags: entry.tags }),
+    ...(entry.requires !== undefined && { requires: entry.requires }),
+  };
+
+  if (!entry.matrix) {
+    return [{ id: entry.id, ...base, parameters: { ...entry.parameters } }];
+  }
+
+  let combinations: [string, unknown][][] = [[]];
+  for (const [name, values] of Object.entries(entry.matrix)) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => [...combination, [name, value] as [string, unknown]])
+    );
+  }
+
+  return combinations.map((combination) => ({
+    id: `${entry.id}[${combination.map(([name, value]) => `${name}=${formatMatrixValue(value)}`).join(",")}]`,
+    ...base,
+    parameters: { ...entry.parameters, ...Object.fromEntries(combination) },
+  }));
+}
+
+/**
+ * Load and expand the configs in a JSON or YAML file. The file holds either
+ * a list of entries or an object with a `configs` list, and optionally a
+ * `gateways` list of HTTP gateways, which are registered as it loads.
+ */
+export async function loadConfigFile(path: string): Promise<SearchConfig[]> {
+  const content = await readFile(path, "utf-8");
+  const extension = extname(path).toLowerCase();
+
+  let parsed: unknown;
+  try {
+    parsed = extension === ".yaml" || extension === ".yml" ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not parse config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (isPlainObject(parsed) && parsed.gateways !== undefined) {
+    if (!Array.isArray(parsed.gateways)) {
+      throw new Error(`Config file ${path} has "gateways" that are not a list`);
+    }
+    parsed.gateways.forEach((entry, index) =>
+      registerHttpGateway(parseHttpGatewayDefinition(entry, `Gateway #${index + 1} in ${path}`))
+    );
+  }
+
+  const entries = isPlainObject(parsed) ? parsed.configs : parsed;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Config file ${path} must contain a list of configs or a "configs" list`);
+  }
+
+  return entries.flatMap((entry, index) =>
+    expandConfig(validateEntry(entry, `Config #${index + 1} in ${path}`))
+  );
+}
+
+/**
+ * Load configs from one or more files (the default file when none given)
+ * @throws Error if two configs share an id
+ */
+export async function loadConfigs(paths: string[] = [defaultConfigPath]): Promise<SearchConfig[]> {
+  const configs = (await Promise.all(paths.map(loadConfigFile))).flat();
+
+  const seen = new Set<string>();
+  for (const config of configs) {
+    if (seen.has(config.id)) {
+      throw new Error(`Duplicate config id "${config.id}"`);
+    }
+    seen.add(config.id);
+  }
+
+  if (configs.length === 0) {
+    throw new Error(`No configs defined in ${paths.join(", ")}`);
+  }
+
+  return configs;
+}
+
+/**
+ * Default number of requests in flight across all gateways
+ */
+export const defaultConcurrency = 8;
+
+/**
+ * Per-gateway request limits, applied in addition to the global cap
+ */
+export const gatewayLimits: Record<string, GatewayLimits> = {
+  tavily: { maxConcurrent: 5, requestsPerSecond: 5 },
+  parallel: { maxConcurrent: 3, requestsPerSecond: 2 },
+  "gemini-search": { maxConcurrent: 2, requestsPerSecond: 1 },
+  you: { maxConcurrent: 3, requestsPerSecond: 2 },
+  perplexity: { maxConcurrent: 3, requestsPerSecond: 3 },
+  // Upstream engines rate-limit a busy instance, so keep it gentle
+  searxng: { maxConcurrent: 2, requestsPerSecond: 1 },
+};
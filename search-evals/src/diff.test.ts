@@ -0,0 +1,135 @@
+/**
+ * Regression diff tests, on report rows built in memory
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { QueryResult } from "./types.js";
+import type { ReportRow } from "./report.js";
+import { diffRows } from "./diff.js";
+
+function row(queryId: string, configId: string, score?: number, hasError = false): ReportRow {
+  const key = `${queryId}::${configId}`;
+  const result: QueryResult = {
+    queryId,
+    query: `Question ${queryId}`,
+    groundTruth: `Answer ${queryId}`,
+    configId,
+    gateway: "mock",
+    parameters: {},
+    executedAt: "2026-03-01T12:00:00.000Z",
+    response: hasError
+      ? { data: null, latencyMs: 5, tokenCount: 0, error: "Server error", errorType: "server" }
+      : { data: {}, results: [], latencyMs: 100, tokenCount: 40 },
+    hasError,
+  };
+  return {
+    key,
+    result,
+    temporal: false,
+    eval:
+      score === undefined
+        ? undefined
+        : {
+            key,
+            queryId,
+            configId,
+            gateway: "mock",
+            query: result.query,
+            groundTruth: result.groundTruth!,
+            latencyMs: 100,
+            tokenCount: 40,
+            score,
+            reasoning: "",
+          },
+  };
+}
+
+const run = (id: string, rows: ReportRow[]) => ({ id, rows });
+
+describe("diffRows", () => {
+  const before = run("a", [row("q1", "mock-ok", 8), row("q2", "mock-ok", 8), row("q1", "mock-other", 6)]);
+
+  it("passes when nothing moved", () => {
+    const diff = diffRows(before, run("b", before.rows));
+
+    assert.deepEqual(diff.regressions, []);
+    assert.equal(diff.configs.find((c) => c.configId === "mock-ok")?.delta, 0);
+  });
+
+  it("flags a score drop beyond the threshold", () => {
+    const diff = diffRows(
+      before,
+      run("b", [row("q1", "mock-ok", 5), row("q2", "mock-ok", 7), row("q1", "mock-other", 6)]),
+      { threshold: 1 }
+    );
+
+    assert.deepEqual(diff.regressions.map((c) => [c.configId, c.reasons]), [["mock-ok", ["score -2.00"]]]);
+  });
+
+  it("flags a config that errors on every call, though nothing is left to judge", () => {
+    const diff = diffRows(
+      before,
+      run("b", [row("q1", "mock-ok", undefined, true), row("q2", "mock-ok", undefined, true), row("q1", "mock-other", 6)])
+    );
+    const [regression] = diff.regressions;
+
+    assert.equal(diff.regressions.length, 1);
+    assert.equal(regression.configId, "mock-ok");
+    assert.equal(regression.judged, 0);
+    assert.equal(regression.delta, undefined);
+    assert.equal(regression.newErrors, 2);
+    assert.deepEqual(regression.reasons, ["error rate 0% → 100%"]);
+  });
+
+  it("flags a rise in error rate without new errors on matched pairs", () => {
+    const diff = diffRows(
+      before,
+      run("b", [row("q1", "mock-ok", 8), row("q2", "mock-ok", 8), row("q3", "mock-ok", undefined, true), row("q1", "mock-other", 6)])
+    );
+
+    assert.deepEqual(diff.regressions.map((c) => [c.configId, c.reasons]), [["mock-ok", ["error rate 0% → 33%"]]]);
+  });
+
+  it("reports a single new error without failing on it", () => {
+    const queries = Array.from({ length: 20 }, (_, i) => `q${i + 1}`);
+    const diff = diffRows(
+      run("a", queries.map((queryId) => row(queryId, "mock-ok", 8))),
+      run("b", queries.map((queryId, i) => (i === 0 ? row(queryId, "mock-ok", undefined, true) : row(queryId, "mock-ok", 8))))
+    );
+
+    assert.equal(diff.newErrors.length, 1);
+    assert.equal(diff.configs[0].newErrors, 1);
+    assert.deepEqual(diff.regressions, []);
+  });
+
+  it("fails on a smaller rise in error rate when the allowed increase is lowered", () => {
+    const queries = Array.from({ length: 20 }, (_, i) => `q${i + 1}`);
+    const diff = diffRows(
+      run("a", queries.map((queryId) => row(queryId, "mock-ok", 8))),
+      run("b", queries.map((queryId, i) => (i === 0 ? row(queryId, "mock-ok", undefined, true) : row(queryId, "mock-ok", 8)))),
+      { maxErrorRateIncrease: 0.01 }
+    );
+
+    assert.deepEqual(diff.regressions.map((c) => c.reasons), [["error rate 0% → 5%"]]);
+  });
+
+  it("flags a guarded config missing from the second run", () => {
+    const diff = diffRows(before, run("b", [row("q1", "mock-other", 6)]), { configs: ["mock-ok"] });
+
+    assert.deepEqual(diff.regressions.map((c) => [c.configId, c.missing, c.reasons]), [
+      ["mock-ok", true, ["missing from b"]],
+    ]);
+  });
+
+  it("only guards the configs it is given", () => {
+    const diff = diffRows(
+      before,
+      run("b", [row("q1", "mock-ok", 8), row("q2", "mock-ok", 8), row("q1", "mock-other", undefined, true)]),
+      { configs: ["mock-ok"] }
+    );
+
+    assert.deepEqual(diff.regressions, []);
+    assert.equal(diff.newErrors.length, 1);
+  });
+});
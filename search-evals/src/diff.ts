@@ -0,0 +1,426 @@
+/**
+ * Run-to-run Regression Diff
+ *
+ * Matches the query × config pairs of two runs (results plus evals) and
+ * lists what moved: score changes, new and fixed errors, large latency or
+ * token shifts, and configs that were added or dropped. Exits non-zero when
+ * a guarded config regresses (its mean score drops by more than a threshold,
+ * its error rate rises by more than another, or it is missing from the
+ * second run), so it can gate scheduled benchmark runs.
+ */
+
+import { access } from "node:fs/promises";
+import { join, dirname, basename, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { loadReportRows, type ReportRow } from "./report.js";
+import { mean } from "./utils/stats.js";
+import { parseNonNegativeNumber } from "./utils/args.js";
+import { renderTextTable, fixed, type Table } from "./utils/table.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+export interface DiffOptions {
+  /** Configs whose regressions fail the diff; defaults to every config in both runs */
+  configs?: string[];
+  /** Allowed drop in mean score (0-10 scale) before a config counts as regressed */
+  threshold?: number;
+  /** Allowed rise in error rate (0.1 = 10 percentage points) before a config counts as regressed */
+  maxErrorRateIncrease?: number;
+  /** Relative latency change reported as a shift (0.5 = ±50%) */
+  latencyShift?: number;
+  /** Relative token count change reported as a shift */
+  tokenShift?: number;
+}
+
+const defaultDiffOptions = {
+  threshold: 1,
+  maxErrorRateIncrease: 0.1,
+  latencyShift: 0.5,
+  tokenShift: 0.5,
+};
+
+/**
+ * One query × config pair present in both runs
+ */
+export interface PairDiff {
+  key: string;
+  query: string;
+  configId: string;
+  before: ReportRow;
+  after: ReportRow;
+}
+
+export interface ShiftDiff extends PairDiff {
+  from: number;
+  to: number;
+  /** Relative change, (to - from) / from */
+  change: number;
+}
+
+export interface ScoreDiff extends PairDiff {
+  from: number;
+  to: number;
+}
+
+/**
+ * Mean score change of one config over the pairs judged in both runs
+ */
+export interface ConfigDiff {
+  configId: string;
+  pairs: number;
+  judged: number;
+  meanBefore?: number;
+  meanAfter?: number;
+  delta?: number;
+  newErrors: number;
+  fixedErrors: number;
+  /** Share of the config's results that failed in each run */
+  errorRateBefore?: number;
+  errorRateAfter?: number;
+  /** Guarded config with no results in runB */
+  missing: boolean;
+  regressed: boolean;
+  /** Why a guarded config counts as regressed, e.g. "score -1.50" */
+  reasons: string[];
+}
+
+export interface RunDiff {
+  runA: string;
+  runB: string;
+  threshold: number;
+  maxErrorRateIncrease: number;
+  configs: ConfigDiff[];
+  scoreChanges: ScoreDiff[];
+  newErrors: PairDiff[];
+  fixedErrors: PairDiff[];
+  latencyShifts: ShiftDiff[];
+  tokenShifts: ShiftDiff[];
+  addedConfigs: string[];
+  droppedConfigs: string[];
+  /** Pairs only in runA (dropped) or only in runB (added), excluding added/dropped configs */
+  droppedPairs: number;
+  addedPairs: number;
+  regressions: ConfigDiff[];
+}
+
+/**
+ * Resolve a run argument: a path to a results file, or a run id in results/
+ */
+export async function resolveRunPath(run: string): Promise<string> {
+  const asPath = resolve(run);
+  try {
+    await access(asPath);
+    return asPath;
+  } catch {
+    const runId = basename(run).replace(/\.json$/, "");
+    return join(projectRoot, "results", `${runId}.json`);
+  }
+}
+
+function relativeChange(from: number, to: number): number {
+  if (from === 0) return to === 0 ? 0 : Infinity;
+  return (to - from) / from;
+}
+
+function errorRate(rows: ReportRow[]): number | undefined {
+  if (rows.length === 0) return undefined;
+  return rows.filter((row) => row.result.hasError).length / rows.length;
+}
+
+function percent(value: number | undefined): string {
+  return value === undefined ? "-" : `${(value * 100).toFixed(0)}%`;
+}
+
+/**
+ * Compare two runs. Results are matched by their query × config key.
+ */
+export async function diffRuns(
+  pathA: string,
+  pathB: string,
+  options: DiffOptions = {}
+): Promise<RunDiff> {
+  return diffRows(
+    { id: basename(pathA, ".json"), rows: await loadReportRows(pathA) },
+    { id: basename(pathB, ".json"), rows: await loadReportRows(pathB) },
+    options
+  );
+}
+
+/**
+ * Compare the report rows of two runs
+ */
+export function diffRows(
+  runA: { id: string; rows: ReportRow[] },
+  runB: { id: string; rows: ReportRow[] },
+  options: DiffOptions = {}
+): RunDiff {
+  const threshold = options.threshold ?? defaultDiffOptions.threshold;
+  const maxErrorRateIncrease = options.maxErrorRateIncrease ?? defaultDiffOptions.maxErrorRateIncrease;
+  const latencyShift = options.latencyShift ?? defaultDiffOptions.latencyShift;
+  const tokenShift = options.tokenShift ?? defaultDiffOptions.tokenShift;
+
+  const rowsA = new Map(runA.rows.map((row) => [row.key, row]));
+  const rowsB = new Map(runB.rows.map((row) => [row.key, row]));
+
+  const configsA = new Set([...rowsA.values()].map((row) => row.result.configId));
+  const configsB = new Set([...rowsB.values()].map((row) => row.result.configId));
+  const addedConfigs = [...configsB].filter((id) => !configsA.has(id)).sort();
+  const droppedConfigs = [...configsA].filter((id) => !configsB.has(id)).sort();
+
+  const pairs: PairDiff[] = [];
+  for (const [key, before] of rowsA) {
+    const after = rowsB.get(key);
+    if (!after) continue;
+    pairs.push({ key, query: before.result.query, configId: before.result.configId, before, after });
+  }
+
+  const countInSharedConfigs = (rows: Map<string, ReportRow>): number =>
+    [...rows.values()].filter(
+      (row) => configsA.has(row.result.configId) && configsB.has(row.result.configId)
+    ).length;
+
+  const scoreChanges: ScoreDiff[] = [];
+  const newErrors: PairDiff[] = [];
+  const fixedErrors: PairDiff[] = [];
+  const latencyShifts: ShiftDiff[] = [];
+  const tokenShifts: ShiftDiff[] = [];
+
+  for (const pair of pairs) {
+    const a = pair.before;
+    const b = pair.after;
+
+    if (a.eval && b.eval && a.eval.score !== b.eval.score) {
+      scoreChanges.push({ ...pair, from: a.eval.score, to: b.eval.score });
+    }
+
+    if (!a.result.hasError && b.result.hasError) newErrors.push(pair);
+    if (a.result.hasError && !b.result.hasError) fixedErrors.push(pair);
+    if (a.result.hasError || b.result.hasError) continue;
+
+    const latencyFrom = a.result.response.latencyMs;
+    const latencyTo = b.result.response.latencyMs;
+    const latencyChange = relativeChange(latencyFrom, latencyTo);
+    if (Math.abs(latencyChange) >= latencyShift) {
+      latencyShifts.push({ ...pair, from: latencyFrom, to: latencyTo, change: latencyChange });
+    }
+
+    const tokensFrom = a.result.response.tokenCount;
+    const tokensTo = b.result.response.tokenCount;
+    const tokenChange = relativeChange(tokensFrom, tokensTo);
+    if (Math.abs(tokenChange) >= tokenShift) {
+      tokenShifts.push({ ...pair, from: tokensFrom, to: tokensTo, change: tokenChange });
+    }
+  }
+
+  // Per-config mean score change over pairs judged in both runs. Guarded
+  // configs missing from runB are listed too: they can't have improved.
+  const guarded = new Set(options.configs ?? [...configsA].filter((id) => configsB.has(id)));
+  const missingConfigs = [...guarded].filter((id) => !configsB.has(id));
+  const configRows = (rows: Map<string, ReportRow>, configId: string): ReportRow[] =>
+    [...rows.values()].filter((row) => row.result.configId === configId);
+
+  const configs: ConfigDiff[] = [];
+  for (const configId of [...[...configsA].filter((id) => configsB.has(id)), ...missingConfigs].sort()) {
+    const configPairs = pairs.filter((pair) => pair.configId === configId);
+    const judged = configPairs.filter((pair) => pair.before.eval && pair.after.eval);
+    const meanBefore = mean(judged.map((pair) => pair.before.eval!.score));
+    const meanAfter = mean(judged.map((pair) => pair.after.eval!.score));
+    const delta =
+      meanBefore !== undefined && meanAfter !== undefined ? meanAfter - meanBefore : undefined;
+    const configNewErrors = newErrors.filter((pair) => pair.configId === configId).length;
+    const errorRateBefore = errorRate(configRows(rowsA, configId));
+    const errorRateAfter = errorRate(configRows(rowsB, configId));
+    const missing = !configsB.has(configId);
+
+    const reasons: string[] = [];
+    if (guarded.has(configId)) {
+      if (missing) reasons.push(`missing from ${runB.id}`);
+      if (delta !== undefined && delta < -threshold) reasons.push(`score ${signed(delta, 2)}`);
+      // New errors alone are reported, not failed on: one transient 5xx is noise
+      if (errorRateAfter !== undefined && errorRateAfter - (errorRateBefore ?? 0) > maxErrorRateIncrease) {
+        reasons.push(`error rate ${percent(errorRateBefore)} → ${percent(errorRateAfter)}`);
+      }
+    }
+
+    configs.push({
+      configId,
+      pairs: configPairs.length,
+      judged: judged.length,
+      meanBefore,
+      meanAfter,
+      delta,
+      newErrors: configNewErrors,
+      fixedErrors: fixedErrors.filter((pair) => pair.configId === configId).length,
+      errorRateBefore,
+      errorRateAfter,
+      missing,
+      regressed: reasons.length > 0,
+      reasons,
+    });
+  }
+
+  return {
+    runA: runA.id,
+    runB: runB.id,
+    threshold,
+    maxErrorRateIncrease,
+    configs,
+    scoreChanges: scoreChanges.sort((x, y) => x.to - x.from - (y.to - y.from)),
+    newErrors,
+    fixedErrors,
+    latencyShifts: latencyShifts.sort((x, y) => Math.abs(y.change) - Math.abs(x.change)),
+    tokenShifts: tokenShifts.sort((x, y) => Math.abs(y.change) - Math.abs(x.change)),
+    addedConfigs,
+    droppedConfigs,
+    droppedPairs: countInSharedConfigs(rowsA) - pairs.length,
+    addedPairs: countInSharedConfigs(rowsB) - pairs.length,
+    regressions: configs.filter((config) => config.regressed),
+  };
+}
+
+function signed(value: number | undefined, digits: number): string | undefined {
+  if (value === undefined) return undefined;
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+function signedPercent(change: number): string {
+  return Number.isFinite(change) ? `${change > 0 ? "+" : ""}${(change * 100).toFixed(0)}%` : "new";
+}
+
+function truncate(text: string, length = 60): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Print a diff as terminal tables
+ */
+export function printDiff(diff: RunDiff): void {
+  console.log("");
+  console.log(`Diff ${diff.runA} → ${diff.runB}`);
+
+  const configTable: Table = {
+    headers: ["Config", "Pairs", "Judged", "Before", "After", "Δ score", "New errors", "Fixed errors", "Error rate", ""],
+    rows: diff.configs.map((c) => [
+      c.configId,
+      c.pairs,
+      c.judged,
+      fixed(c.meanBefore, 2),
+      fixed(c.meanAfter, 2),
+      signed(c.delta, 2),
+      c.newErrors,
+      c.fixedErrors,
+      `${percent(c.errorRateBefore)} → ${percent(c.errorRateAfter)}`,
+      c.regressed ? "REGRESSED" : "",
+    ]),
+  };
+  console.log("");
+  console.log(renderTextTable(configTable));
+
+  if (diff.addedConfigs.length > 0) console.log(`\nNew configs: ${diff.addedConfigs.join(", ")}`);
+  if (diff.droppedConfigs.length > 0) console.log(`Dropped configs: ${diff.droppedConfigs.join(", ")}`);
+  if (diff.addedPairs > 0 || diff.droppedPairs > 0) {
+    console.log(`Unmatched pairs: ${diff.addedPairs} only in ${diff.runB}, ${diff.droppedPairs} only in ${diff.runA}`);
+  }
+
+  if (diff.scoreChanges.length > 0) {
+    console.log("\nScore changes:");
+    console.log(
+      renderTextTable({
+        headers: ["Config", "Query", "Before", "After", "Δ"],
+        rows: diff.scoreChanges.map((c) => [c.configId, truncate(c.query), c.from, c.to, signed(c.to - c.from, 0)]),
+      })
+    );
+  }
+
+  const printErrors = (title: string, pairs: PairDiff[], side: "before" | "after"): void => {
+    if (pairs.length === 0) return;
+    console.log(`\n${title}:`);
+    for (const pair of pairs) {
+      const response = pair[side].result.response;
+      console.log(`  ${pair.configId}: ${truncate(pair.query)} (${response.errorType ?? "unknown"}: ${response.error})`);
+    }
+  };
+  printErrors("New errors", diff.newErrors, "after");
+  printErrors("Fixed errors", diff.fixedErrors, "before");
+
+  const printShifts = (title: string, shifts: ShiftDiff[]): void => {
+    if (shifts.length === 0) return;
+    console.log(`\n${title}:`);
+    console.log(
+      renderTextTable({
+        headers: ["Config", "Query", "Before", "After", "Change"],
+        rows: shifts.map((s) => [s.configId, truncate(s.query), s.from, s.to, signedPercent(s.change)]),
+      })
+    );
+  };
+  printShifts("Latency shifts (ms)", diff.latencyShifts);
+  printShifts("Token shifts", diff.tokenShifts);
+
+  console.log("");
+  if (diff.regressions.length > 0) {
+    console.log(`✗ ${diff.regressions.length} config(s) regressed:`);
+    for (const config of diff.regressions) {
+      console.log(`  ${config.configId}: ${config.reasons.join(", ")}`);
+    }
+  } else {
+    console.log(
+      `✓ No config regressed (score threshold ${diff.threshold} points, error rate increase up to ${percent(diff.maxErrorRateIncrease)})`
+    );
+  }
+}
+
+/**
+ * Main function for standalone execution
+ */
+async function main(): Promise<void> {
+  const { values: args, positionals } = parseArgs({
+    options: {
+      config: { type: "string", multiple: true },
+      threshold: { type: "string" },
+      "max-error-rate-increase": { type: "string" },
+      "latency-shift": { type: "string" },
+      "token-shift": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+
+  if (positionals.length !== 2) {
+    console.error("Usage: npm run diff -- <runA> <runB> [--config <id>] [--threshold <points>] [--max-error-rate-increase <share>]");
+    process.exit(1);
+  }
+
+  const [pathA, pathB] = await Promise.all(positionals.map(resolveRunPath));
+  const diff = await diffRuns(pathA, pathB, {
+    configs: args.config,
+    threshold: parseNonNegativeNumber(args.threshold, "threshold"),
+    maxErrorRateIncrease: parseNonNegativeNumber(args["max-error-rate-increase"], "max-error-rate-increase"),
+    latencyShift: parseNonNegativeNumber(args["latency-shift"], "latency-shift"),
+    tokenShift: parseNonNegativeNumber(args["token-shift"], "token-shift"),
+  });
+
+  // Guarded configs missing from runB are regressions; ones only in runB have no baseline
+  const unknown = (args.config ?? []).filter(
+    (id) => !diff.configs.some((config) => config.configId === id)
+  );
+  if (unknown.length > 0) {
+    console.warn(`Warning: Not in ${diff.runA}, nothing to compare: ${unknown.join(", ")}`);
+  }
+
+  printDiff(diff);
+
+  if (diff.regressions.length > 0) {
+    process.exit(1);
+  }
+}
+
+// Only run main() when executed directly, not when imported
+const isMainModule = process.argv[1]?.endsWith("diff.js");
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Error during diff:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Evaluator tests, with a scripted judge instead of an LLM
+ */
+
+import { describe, it, beforeEach, afterEach, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { EvalRecord, QueryResult, RunResult } from "./types.js";
+import { evaluate } from "./evaluator.js";
+import { MockJudge, scoreAll } from "./judges/mock.js";
+
+function result(queryId: string, configId: string, overrides: Partial<QueryResult> = {}): QueryResult {
+  return {
+    queryId,
+    query: `Question ${queryId}`,
+    groundTruth: `Answer ${queryId}`,
+    configId,
+    gateway: "mock",
+    parameters: {},
+    executedAt: "2026-03-01T12:00:00.000Z",
+    response: {
+      data: {},
+      results: [{ rank: 1, url: "https://example.com/1", title: `Answer ${queryId}` }],
+      latencyMs: 120,
+      tokenCount: 40,
+    },
+    hasError: false,
+    ...overrides,
+  };
+}
+
+function quiet(t: TestContext): void {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+}
+
+describe("evaluate", () => {
+  let dir: string;
+  let resultsPath: string;
+  let outputPath: string;
+
+  async function writeRun(results: QueryResult[]): Promise<void> {
+    const runResult: RunResult = { id: "run", executedAt: "2026-03-01T12:00:00.000Z", results };
+    await writeFile(resultsPath, JSON.stringify(runResult), "utf-8");
+  }
+
+  async function readEvals(): Promise<EvalRecord[]> {
+    return JSON.parse(await readFile(outputPath, "utf-8")) as EvalRecord[];
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    resultsPath = join(dir, "results.json");
+    outputPath = join(dir, "evals.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes one record per judged result, in results order", async (t) => {
+    quiet(t);
+    await writeRun([result("q1", "mock-a"), result("q1", "mock-b"), result("q2", "mock-a")]);
+    const judge = new MockJudge(scoreAll(7, "Close enough."));
+
+    await evaluate(resultsPath, { judge, outputPath, batchSize: 2 });
+
+    const evals = await readEvals();
+    assert.deepEqual(
+      evals.map((record) => [record.key, record.score]),
+      [
+        ["q1::mock-a", 7],
+        ["q1::mock-b", 7],
+        ["q2::mock-a", 7],
+      ]
+    );
+    assert.equal(judge.requests.length, 2);
+    assert.equal(evals[0].reasoning, "Close enough.");
+    assert.equal(evals[0].judge, "mock");
+    assert.equal(evals[0].groundTruth, "Answer q1");
+    assert.equal(evals[0].latencyMs, 120);
+  });
+
+  it("skips results without ground truth or with errors", async (t) => {
+    quiet(t);
+    await writeRun([
+      result("q1", "mock-a"),
+      result("q2", "mock-a", { groundTruth: undefined }),
+      result("q3", "mock-a", {
+        hasError: true,
+        response: { data: null, latencyMs: 5, tokenCount: 0, error: "boom", errorType: "server" },
+      }),
+    ]);
+    const judge = new MockJudge(scoreAll(9));
+
+    await evaluate(resultsPath, { judge, outputPath });
+
+    assert.deepEqual(
+      (await readEvals()).map((record) => record.key),
+      ["q1::mock-a"]
+    );
+    assert.equal(judge.requests.length, 1);
+  });
+
+  it("retries invalid output and keeps the valid retry", async (t) => {
+    quiet(t);
+    await writeRun([result("q1", "mock-a")]);
+    const judge = new MockJudge(["not json", scoreAll(4)]);
+
+    await evaluate(resultsPath, { judge, outputPath, maxAttempts: 2 });
+
+    assert.equal(judge.requests.length, 2);
+    assert.deepEqual(
+      (await readEvals()).map((record) => record.score),
+      [4]
+    );
+  });
+
+  it("leaves out batches whose output stays invalid", async (t) => {
+    quiet(t);
+    await writeRun([result("q1", "mock-a"), result("q2", "mock-a")]);
+    // One result per batch; q2's score is out of range
+    const judge = new MockJudge((request) => {
+      const key = request.prompt.includes('"key": "q2::mock-a"') ? "q2::mock-a" : "q1::mock-a";
+      return JSON.stringify({ evaluations: [{ key, score: key === "q2::mock-a" ? 11 : 6, reasoning: "Scored." }] });
+    });
+
+    await evaluate(resultsPath, { judge, outputPath, maxAttempts: 1 });
+
+    assert.deepEqual(
+      (await readEvals()).map((record) => record.key),
+      ["q1::mock-a"]
+    );
+  });
+
+  it("fails without writing when nothing could be judged", async (t) => {
+    quiet(t);
+    await writeRun([result("q1", "mock-a")]);
+    const judge = new MockJudge(new Error("judge unavailable"));
+
+    await assert.rejects(
+      evaluate(resultsPath, { judge, outputPath, maxAttempts: 1 }),
+      /No results could be judged/
+    );
+    await assert.rejects(readFile(outputPath, "utf-8"), { code: "ENOENT" });
+  });
+
+  it("rejects output that misses a result's facts", async (t) => {
+    quiet(t);
+    await writeRun([
+      result("q1", "mock-a", { facts: [{ fact: "Team A" }, { fact: "3-1" }] }),
+    ]);
+    const missingFacts = JSON.stringify({
+      evaluations: [{ key: "q1::mock-a", score: 8, reasoning: "Mentions the winner.", facts: [{ fact: "Team A", found: true }] }],
+    });
+    const judge = new MockJudge([missingFacts, scoreAll(8)]);
+
+    await evaluate(resultsPath, { judge, outputPath, maxAttempts: 2 });
+
+    assert.equal(judge.requests.length, 2);
+    assert.deepEqual((await readEvals())[0].facts, [
+      { fact: "Team A", found: true },
+      { fact: "3-1", found: true },
+    ]);
+  });
+});
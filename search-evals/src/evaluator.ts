@@ -1,21 +1,68 @@
 /**
  * LLM Evaluator
  *
- * Evaluates search results against ground truth using OpenAI.
- * Reads results from results/, sends to LLM with instructions, writes to evals/.
+ * Evaluates search results against ground truth using an LLM judge
+ * (OpenAI by default; see src/judges/ for the other backends).
+ * Reads results from results/, judges them individually or in small batches
+ * with a JSON-schema constrained response, and writes one eval record per
+ * result to evals/.
  */
 
 import "dotenv/config";
-import OpenAI from "openai";
 import { readFile, writeFile, mkdir, readdir } from "node:fs/promises";
 import { join, dirname, basename, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import type { EvalRecord, FactCredit, Judge, QueryResult, RunResult } from "./types.js";
+import { getNormalizedResponse } from "./gateways/index.js";
+import { Limiter, sleep } from "./utils/concurrency.js";
+import { backoffDelayMs } from "./utils/retry.js";
+import { queryIdFor, resultKeyFor } from "./utils/keys.js";
+import { parsePositiveInt } from "./utils/args.js";
+import { createJudge, resolveJudgeOptions, getAvailableJudges } from "./judges/index.js";
+import { estimateJudgeCost, formatUsd } from "./pricing.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const projectRoot = join(__dirname, "..");
 
-const client = new OpenAI(); // Uses OPENAI_API_KEY from env
+export interface EvaluateOptions {
+  /** Judge backend; defaults to the one configured by EVAL_* env vars */
+  judge?: Judge;
+  /** Where to write the evals; defaults to evals/<results filename> */
+  outputPath?: string;
+  /** Results judged per LLM call */
+  batchSize?: number;
+  /** LLM calls in flight at once */
+  concurrency?: number;
+  /** Attempts per batch before giving up on invalid or failed responses */
+  maxAttempts?: number;
+}
+
+const defaultEvaluateOptions = {
+  batchSize: 1,
+  concurrency: 4,
+  maxAttempts: 3,
+};
+
+/**
+ * A single judgement as returned by the LLM
+ */
+interface Judgement {
+  key: string;
+  score: number;
+  reasoning: string;
+  /** Per-fact credit, when the batch has structured facts */
+  facts?: FactCredit[];
+}
+
+/**
+ * Judgements for a batch and the estimated cost of every call it took
+ */
+interface BatchOutcome {
+  judgements: Judgement[];
+  costUsd?: number;
+}
 
 /**
  * Find the most recent results file in results/
@@ -35,11 +82,200 @@ export async function findLatestResultsFile(): Promise<string> {
 }
 
 /**
- * Evaluate search results using OpenAI
+ * Build the JSON schema the LLM response must follow for a batch. When any
+ * result has structured facts, every evaluation also lists per-fact credit
+ * (empty for results without facts).
+ */
+function judgementSchema(keys: string[], facts: string[] = []): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    key: { type: "string", enum: keys },
+    score: { type: "integer", minimum: 0, maximum: 10 },
+    reasoning: { type: "string" },
+  };
+  if (facts.length > 0) {
+    properties.facts = {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          fact: { type: "string", enum: facts },
+          found: { type: "boolean" },
+        },
+        required: ["fact", "found"],
+        additionalProperties: false,
+      },
+    };
+  }
+
+  return {
+    type: "object",
+    properties: {
+      evaluations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties,
+          required: Object.keys(properties),
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["evaluations"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Reduce a result to what the judge needs: normalized results and the
+ * synthesized answer, falling back to raw data when nothing was normalized
+ */
+function toJudgeInput(result: QueryResult): Record<string, unknown> {
+  const normalized = getNormalizedResponse(result);
+
+  return {
+    key: resultKeyFor(result),
+    query: result.query,
+    groundTruth: result.groundTruth,
+    facts: result.facts,
+    mustNotContain: result.mustNotContain,
+    configId: result.configId,
+    gateway: result.gateway,
+    response:
+      normalized.results.length > 0 || normalized.answer
+        ? { answer: normalized.answer, results: normalized.results }
+        : { data: result.response.data },
+  };
+}
+
+/**
+ * Check a judgement's per-fact credit covers every fact of its result,
+ * keeping only those facts
+ * @throws Error if the credit is malformed or a fact is missing
+ */
+function parseFactCredit(item: Partial<Judgement>, facts: string[]): FactCredit[] | undefined {
+  if (facts.length === 0) return undefined;
+  if (!Array.isArray(item.facts)) {
+    throw new Error(`Missing facts for ${item.key}`);
+  }
+
+  const found = new Map<string, boolean>();
+  for (const credit of item.facts as Partial<FactCredit>[]) {
+    if (typeof credit.fact !== "string" || typeof credit.found !== "boolean") {
+      throw new Error(`Invalid fact credit for ${item.key}`);
+    }
+    found.set(credit.fact, credit.found);
+  }
+
+  const missing = facts.filter((fact) => !found.has(fact));
+  if (missing.length > 0) {
+    throw new Error(`Response for ${item.key} is missing facts: ${missing.join(", ")}`);
+  }
+  return facts.map((fact) => ({ fact, found: found.get(fact)! }));
+}
+
+/**
+ * Parse and validate the LLM output for a batch
+ * @param factsByKey - Structured fact names per result key
+ * @throws Error if the output is not valid JSON or doesn't cover every key
+ */
+function parseJudgements(
+  output: string,
+  keys: string[],
+  factsByKey: Map<string, string[]> = new Map()
+): Judgement[] {
+  const parsed = JSON.parse(output) as { evaluations?: unknown };
+  if (!Array.isArray(parsed.evaluations)) {
+    throw new Error('Response has no "evaluations" array');
+  }
+
+  const byKey = new Map<string, Judgement>();
+  for (const item of parsed.evaluations as Partial<Judgement>[]) {
+    if (typeof item.key !== "string" || !keys.includes(item.key)) {
+      throw new Error(`Unexpected key in response: ${item.key}`);
+    }
+    if (
+      typeof item.score !== "number" ||
+      !Number.isInteger(item.score) ||
+      item.score < 0 ||
+      item.score > 10
+    ) {
+      throw new Error(`Invalid score for ${item.key}: ${item.score}`);
+    }
+    if (typeof item.reasoning !== "string") {
+      throw new Error(`Missing reasoning for ${item.key}`);
+    }
+    byKey.set(item.key, {
+      key: item.key,
+      score: item.score,
+      reasoning: item.reasoning,
+      facts: parseFactCredit(item, factsByKey.get(item.key) ?? []),
+    });
+  }
+
+  const missing = keys.filter((key) => !byKey.has(key));
+  if (missing.length > 0) {
+    throw new Error(`Response is missing keys: ${missing.join(", ")}`);
+  }
+
+  return keys.map((key) => byKey.get(key)!);
+}
+
+/**
+ * Judge a batch of results, retrying failed calls and invalid responses.
+ * Calls whose output was invalid still count towards the cost.
+ */
+async function judgeBatch(
+  batch: QueryResult[],
+  instructions: string,
+  judge: Judge,
+  maxAttempts: number
+): Promise<BatchOutcome> {
+  const inputs = batch.map(toJudgeInput);
+  const keys = inputs.map((input) => input.key as string);
+  const factsByKey = new Map(
+    batch.map((result) => [resultKeyFor(result), (result.facts ?? []).map((fact) => fact.fact)])
+  );
+  const facts = [...new Set([...factsByKey.values()].flat())];
+  const prompt = `${instructions}\n\n## Results to Evaluate\n\n${JSON.stringify(inputs, null, 2)}`;
+
+  let lastError: unknown;
+  let costUsd: number | undefined;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await judge.judge({
+        prompt,
+        schemaName: "evaluations",
+        schema: judgementSchema(keys, facts),
+      });
+      const callCost = estimateJudgeCost(judge.model, response);
+      if (callCost !== undefined) costUsd = (costUsd ?? 0) + callCost;
+      return { judgements: parseJudgements(response.output, keys, factsByKey), costUsd };
+    } catch (error) {
+      lastError = error;
+      if (attempt < maxAttempts) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`  ↻ Judge attempt ${attempt}/${maxAttempts} failed: ${message}`);
+        await sleep(backoffDelayMs(attempt, { maxAttempts, baseDelayMs: 1000, maxDelayMs: 30000 }));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Evaluate search results with an LLM judge
  */
-export async function evaluate(resultsPath: string): Promise<string> {
+export async function evaluate(
+  resultsPath: string,
+  options: EvaluateOptions = {}
+): Promise<string> {
+  const batchSize = options.batchSize ?? defaultEvaluateOptions.batchSize;
+  const concurrency = options.concurrency ?? defaultEvaluateOptions.concurrency;
+  const maxAttempts = options.maxAttempts ?? defaultEvaluateOptions.maxAttempts;
+
   // 1. Read the results JSON file
-  const results = await readFile(resultsPath, "utf-8");
+  const runResult = JSON.parse(await readFile(resultsPath, "utf-8")) as RunResult;
 
   // 2. Read the evaluator instructions
   const instructions = await readFile(
@@ -47,38 +283,95 @@ export async function evaluate(resultsPath: string): Promise<string> {
     "utf-8"
   );
 
-  // 3. Call OpenAI
-  const model = process.env.EVAL_MODEL || "gpt-4o";
-  console.log(`Using model: ${model}`);
-
-  const response = await client.chat.completions.create({
-    model,
-    max_completion_tokens: 8192,
-    messages: [
-      {
-        role: "user",
-        content: `${instructions}\n\n## Results to Evaluate\n\n${results}`,
-      },
-    ],
-  });
+  // 3. Select results that can be judged
+  const judgeable = runResult.results.filter(
+    (result) => result.groundTruth && !result.hasError
+  );
+  const batches: QueryResult[][] = [];
+  for (let i = 0; i < judgeable.length; i += batchSize) {
+    batches.push(judgeable.slice(i, i + batchSize));
+  }
 
-  // 4. Extract text response
-  const output = response.choices[0]?.message?.content || "";
+  const judge = options.judge ?? createJudge(resolveJudgeOptions());
+  console.log(`Using judge: ${judge.name} (${judge.model})`);
+  console.log(
+    `Judging ${judgeable.length} results in ${batches.length} batches (skipped ${runResult.results.length - judgeable.length} without ground truth or with errors)`
+  );
 
-  // 5. Warn if output isn't valid JSON
-  try {
-    JSON.parse(output);
-  } catch {
-    console.warn("Warning: LLM output is not valid JSON. Writing raw output.");
+  // 4. Judge batches concurrently
+  const limiter = new Limiter({ maxConcurrent: concurrency });
+  const judgementsByKey = new Map<string, Judgement>();
+  const costByKey = new Map<string, number>();
+  let completed = 0;
+  let failed = 0;
+
+  await Promise.all(
+    batches.map((batch) =>
+      limiter.run(async () => {
+        try {
+          const { judgements, costUsd } = await judgeBatch(batch, instructions, judge, maxAttempts);
+          for (const judgement of judgements) {
+            judgementsByKey.set(judgement.key, judgement);
+            // Split the batch cost evenly across its results
+            if (costUsd !== undefined) costByKey.set(judgement.key, costUsd / judgements.length);
+          }
+        } catch (error) {
+          failed += batch.length;
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`  ⚠ Could not judge ${batch.map(resultKeyFor).join(", ")}: ${message}`);
+        }
+        completed++;
+        console.log(`[${completed}/${batches.length}] judged`);
+      })
+    )
+  );
+
+  // 5. Build eval records in results order
+  const evals: EvalRecord[] = [];
+  for (const result of judgeable) {
+    const key = resultKeyFor(result);
+    const judgement = judgementsByKey.get(key);
+    if (!judgement) continue;
+
+    evals.push({
+      key,
+      queryId: result.queryId ?? queryIdFor(result),
+      configId: result.configId,
+      gateway: result.gateway,
+      query: result.query,
+      groundTruth: result.groundTruth!,
+      latencyMs: result.response.latencyMs,
+      tokenCount: result.response.tokenCount,
+      score: judgement.score,
+      reasoning: judgement.reasoning,
+      judge: judge.name,
+      judgeModel: judge.model,
+      judgeCostUsd: costByKey.get(key),
+      facts: judgement.facts,
+      trial: result.trial,
+    });
+  }
+
+  // Don't replace an existing evals file with an empty one
+  if (judgeable.length > 0 && evals.length === 0) {
+    throw new Error("No results could be judged; check the judge configuration.");
+  }
+  if (failed > 0) {
+    console.warn(`Warning: ${failed} results could not be judged and are missing from the evals file.`);
   }
 
   // 6. Write to evals directory with same filename
-  const filename = basename(resultsPath);
-  const evalsDir = join(projectRoot, "evals");
-  await mkdir(evalsDir, { recursive: true });
-  const evalPath = join(evalsDir, filename);
-  await writeFile(evalPath, output);
+  const evalPath =
+    options.outputPath ?? join(projectRoot, "evals", basename(resultsPath));
+  await mkdir(dirname(evalPath), { recursive: true });
+  await writeFile(evalPath, JSON.stringify(evals, null, 2), "utf-8");
 
+  const judgeCosts = evals
+    .map((record) => record.judgeCostUsd)
+    .filter((cost): cost is number => cost !== undefined);
+  if (judgeCosts.length > 0) {
+    console.log(`Estimated judge cost: ${formatUsd(judgeCosts.reduce((sum, cost) => sum + cost, 0))}`);
+  }
   console.log(`Evaluation written to: ${evalPath}`);
 
   return evalPath;
@@ -88,15 +381,35 @@ export async function evaluate(resultsPath: string): Promise<string> {
  * Main function for standalone execution
  */
 async function main(): Promise<void> {
-  // Validate environment
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("Error: OPENAI_API_KEY is not set in environment.");
-    console.error("Set it in .env or export it before running.");
+  const { values: args, positionals } = parseArgs({
+    options: {
+      judge: { type: "string" },
+      "judge-model": { type: "string" },
+      "judge-base-url": { type: "string" },
+      output: { type: "string" },
+      "batch-size": { type: "string" },
+      concurrency: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const fileArg = positionals[0];
+
+  // Validate the judge configuration (backend, model, API key) up front
+  let judge: Judge;
+  try {
+    judge = createJudge(
+      resolveJudgeOptions({
+        backend: args.judge,
+        model: args["judge-model"],
+        baseURL: args["judge-base-url"],
+      })
+    );
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    console.error(`Available judges: ${getAvailableJudges().join(", ")}. Set keys in .env.`);
     process.exit(1);
   }
 
-  const fileArg = process.argv[2];
-
   let resultsPath: string;
   if (fileArg) {
     // Use provided file path
@@ -107,7 +420,12 @@ async function main(): Promise<void> {
   }
 
   console.log(`Evaluating: ${resultsPath}`);
-  await evaluate(resultsPath);
+  await evaluate(resultsPath, {
+    judge,
+    outputPath: args.output ? resolve(args.output) : undefined,
+    batchSize: parsePositiveInt(args["batch-size"], "batch-size"),
+    concurrency: parsePositiveInt(args.concurrency, "concurrency"),
+  });
 }
 
 // Only run main() when executed directly, not when imported
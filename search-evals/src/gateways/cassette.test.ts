@@ -0,0 +1,89 @@
+/**
+ * Cassette tests: recording responses and replaying them without calling the gateway
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { QueryResult, RunResult, SearchGateway } from "../types.js";
+import { CassetteStore, CassetteMissError, RecordingGateway, ReplayGateway } from "./cassette.js";
+import { MockGateway } from "./mock.js";
+
+function trialResult(trial: number): QueryResult {
+  return {
+    query: "Who won?",
+    configId: "mock-ok",
+    gateway: "mock",
+    parameters: {},
+    executedAt: "2026-03-01T12:00:00.000Z",
+    trial,
+    response: {
+      data: { results: [{ url: `https://example.com/trial-${trial}`, title: `Trial ${trial}` }] },
+      latencyMs: 10 * trial,
+      tokenCount: 0,
+    },
+    hasError: false,
+  };
+}
+
+describe("ReplayGateway", () => {
+  it("replays each trial of a results file separately", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    try {
+      const path = join(dir, "run.json");
+      const run: RunResult = {
+        id: "2026-03-01T12-00-00.000Z",
+        executedAt: "2026-03-01T12:00:00.000Z",
+        repeat: 2,
+        results: [trialResult(1), trialResult(2)],
+      };
+      await writeFile(path, JSON.stringify(run), "utf-8");
+
+      const store = await CassetteStore.load(path);
+      const gateway = new ReplayGateway("mock", new MockGateway(), store);
+
+      assert.equal(store.size, 2);
+      for (const trial of [1, 2]) {
+        const response = await gateway.search("Who won?", {}, { trial });
+        assert.equal(response.results?.[0].url, `https://example.com/trial-${trial}`);
+        assert.equal(response.latencyMs, 10 * trial);
+      }
+      await assert.rejects(gateway.search("Who won?", {}, { trial: 3 }), CassetteMissError);
+      await assert.rejects(gateway.search("Who won?", {}), /No recorded response for mock query "Who won\?"/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("RecordingGateway", () => {
+  it("writes the cassette once on flush, not on every call", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    try {
+      const path = join(dir, "cassette.json");
+      const inner: SearchGateway = {
+        parameterSchema: {},
+        search: async (query) => ({ data: { query }, results: [], latencyMs: 1, tokenCount: 1 }),
+        normalize: () => ({ results: [] }),
+      };
+      const store = new CassetteStore(path);
+      const gateway = new RecordingGateway("stub", inner, store);
+
+      await gateway.search("First", {}, { trial: 1 });
+      await gateway.search("First", {}, { trial: 2 });
+      await gateway.search("Second", {});
+      await assert.rejects(readFile(path, "utf-8"), { code: "ENOENT" });
+
+      await store.flush();
+      const file = JSON.parse(await readFile(path, "utf-8")) as { entries: { query: string; trial?: number }[] };
+      assert.deepEqual(
+        file.entries.map((entry) => [entry.query, entry.trial]),
+        [["First", 1], ["First", 2], ["Second", undefined]]
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Cassette Gateways - Record and replay gateway responses
+ *
+ * In record mode every request (gateway, query, parameters, trial) is stored
+ * with its response in a cassette file. In replay mode responses are served from a
+ * cassette or from an existing results/*.json file without calling any API;
+ * a request that is not in the store fails the run with a CassetteMissError.
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+  RunResult,
+  SearchContext,
+} from "../types.js";
+import { countTokens } from "../utils/tokens.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..", "..");
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Cassette file to write (record) or cassette/results file to read (replay) */
+  path: string;
+}
+
+export interface CassetteEntry {
+  gateway: string;
+  query: string;
+  parameters: Record<string, unknown>;
+  /** Trial of a repeated run, so each trial replays its own response */
+  trial?: number;
+  recordedAt: string;
+  response: SearchResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Thrown in replay mode when a request has no recorded response
+ */
+export class CassetteMissError extends Error {
+  constructor(gateway: string, query: string, parameters: Record<string, unknown>, trial?: number) {
+    super(
+      `No recorded response for ${gateway} query "${query}" with parameters ${stableStringify(parameters)}` +
+        (trial !== undefined ? ` (trial ${trial})` : "")
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * Resolve a cassette argument: paths ending in .json are used as given,
+ * bare names map to cassettes/<name>.json
+ */
+export function resolveCassettePath(value: string): string {
+  if (value.endsWith(".json")) {
+    return resolve(value);
+  }
+  return join(projectRoot, "cassettes", `${value}.json`);
+}
+
+/**
+ * Build the lookup key for a request
+ */
+export function cassetteKey(
+  gateway: string,
+  query: string,
+  parameters: Record<string, unknown>,
+  trial?: number
+): string {
+  return `${gateway}\u0000${query}\u0000${stableStringify(parameters)}\u0000${trial ?? ""}`;
+}
+
+/**
+ * JSON.stringify with object keys sorted, so key order doesn't affect lookups
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * In-memory cassette backed by a JSON file
+ */
+export class CassetteStore {
+  private readonly entries = new Map<string, CassetteEntry>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private unsaved = false;
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Load entries from a cassette file or a results/*.json run file
+   */
+  static async load(path: string): Promise<CassetteStore> {
+    const store = new CassetteStore(path);
+    const content = JSON.parse(await readFile(path, "utf-8")) as
+      | CassetteFile
+      | RunResult;
+
+    if ("entries" in content && Array.isArray(content.entries)) {
+      for (const entry of content.entries) {
+        store.entries.set(
+          cassetteKey(entry.gateway, entry.query, entry.parameters, entry.trial),
+          entry
+        );
+      }
+    } else if ("results" in content && Array.isArray(content.results)) {
+      for (const result of content.results) {
+        store.entries.set(
+          cassetteKey(result.gateway, result.query, result.parameters, result.trial),
+          {
+            gateway: result.gateway,
+            query: result.query,
+            parameters: result.parameters,
+            trial: result.trial,
+            recordedAt: result.executedAt,
+            response: result.response,
+          }
+        );
+      }
+    } else {
+      throw new Error(`${path} is neither a cassette nor a results file`);
+    }
+
+    return store;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(
+    gateway: string,
+    query: string,
+    parameters: Record<string, unknown>,
+    trial?: number
+  ): CassetteEntry | undefined {
+    return this.entries.get(cassetteKey(gateway, query, parameters, trial));
+  }
+
+  /**
+   * Store an entry; the cassette file is written on the next flush()
+   */
+  record(entry: CassetteEntry): void {
+    this.entries.set(cassetteKey(entry.gateway, entry.query, entry.parameters, entry.trial), entry);
+    this.unsaved = true;
+  }
+
+  /**
+   * Write the cassette file once for everything recorded since the last
+   * flush. Writes are serialized so concurrent flushes never interleave.
+   */
+  flush(): Promise<void> {
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      if (!this.unsaved) return;
+      this.unsaved = false;
+      await this.save();
+    });
+    return this.pendingWrite;
+  }
+
+  private async save(): Promise<void> {
+    const file: CassetteFile = { version: 1, entries: [...this.entries.values()] };
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(file, null, 2), "utf-8");
+  }
+}
+
+/**
+ * Calls the wrapped gateway and records every response
+ */
+export class RecordingGateway implements SearchGateway {
+  constructor(
+    private readonly name: string,
+    private readonly inner: SearchGateway,
+    private readonly store: CassetteStore
+  ) {}
+
+  get parameterSchema(): ParameterSchema {
+    return this.inner.parameterSchema;
+  }
+
+  async search(
+    query: string,
+    parameters: Record<string, unknown>,
+    context: SearchContext = {}
+  ): Promise<SearchResponse> {
+    const response = await this.inner.search(query, parameters, context);
+
+    this.store.record({
+      gateway: this.name,
+      query,
+      parameters,
+      trial: context.trial,
+      recordedAt: new Date().toISOString(),
+      // Copy so later changes by the runner (e.g. attempts) aren't recorded
+      response: { ...response },
+    });
+
+    return response;
+  }
+
+  normalize(data: unknown): NormalizedResponse {
+    return this.inner.normalize(data);
+  }
+}
+
+/**
+ * Serves recorded responses without calling the wrapped gateway.
+ * Token counts and normalized results are recomputed from the raw data so
+ * changes to those steps take effect on replay.
+ */
+export class ReplayGateway implements SearchGateway {
+  constructor(
+    private readonly name: string,
+    private readonly inner: SearchGateway,
+    private readonly store: CassetteStore
+  ) {}
+
+  get parameterSchema(): ParameterSchema {
+    return this.inner.parameterSchema;
+  }
+
+  async search(
+    query: string,
+    parameters: Record<string, unknown>,
+    context: SearchContext = {}
+  ): Promise<SearchResponse> {
+    const entry = this.store.get(this.name, query, parameters, context.trial);
+    if (!entry) {
+      throw new CassetteMissError(this.name, query, parameters, context.trial);
+    }
+
+    const { response } = entry;
+    if (response.error || response.data === null || response.data === undefined) {
+      return { ...response };
+    }
+
+    return {
+      ...response,
+      ...this.normalize(response.data),
+      tokenCount: countTokens(response.data),
+    };
+  }
+
+  normalize(data: unknown): NormalizedResponse {
+    return this.inner.normalize(data);
+  }
+}
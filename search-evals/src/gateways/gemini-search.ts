@@ -4,8 +4,16 @@
  */
 
 import { GoogleGenAI } from "@google/genai";
-import type { SearchGateway, SearchResponse } from "../types.js";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
 import { countTokens } from "../utils/tokens.js";
+import { errorResponse } from "../utils/errors.js";
+import { rankResults, joinSnippets } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
 
 let client: GoogleGenAI | null = null;
 
@@ -20,7 +28,36 @@ function getClient(): GoogleGenAI {
   return client;
 }
 
+/**
+ * Fields of the stored Gemini response data used for normalization
+ */
+interface RawGeminiResponse {
+  text?: string;
+  groundingMetadata?: {
+    groundingChunks?: Array<{
+      web?: { uri?: string; title?: string };
+    }>;
+    groundingSupports?: Array<{
+      segment?: { text?: string };
+      groundingChunkIndices?: number[];
+    }>;
+  };
+}
+
+/**
+ * Parameters accepted by the Gemini Search gateway
+ */
+interface GeminiSearchParameters {
+  model: string;
+}
+
+const parameterSchema: ParameterSchema = {
+  model: { type: "string", default: "gemini-3-flash-preview" },
+};
+
 export class GeminiSearchGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
   async search(
     query: string,
     parameters: Record<string, unknown>
@@ -31,7 +68,7 @@ export class GeminiSearchGateway implements SearchGateway {
       const ai = getClient();
 
       // Get model from parameters or use default
-      const model = (parameters.model as string) ?? "gemini-3-flash-preview";
+      const { model } = resolveParameters<GeminiSearchParameters>(parameterSchema, parameters);
 
       // Configure Google Search grounding tool
       const groundingTool = {
@@ -58,25 +95,61 @@ export class GeminiSearchGateway implements SearchGateway {
         groundingMetadata: response.candidates?.[0]?.groundingMetadata,
       };
 
+      // Billed tokens, for cost estimates
+      const usage = response.usageMetadata;
+
       const tokenCount = countTokens(responseData);
 
       return {
         data: responseData,
+        ...this.normalize(responseData),
         latencyMs,
         tokenCount,
+        usage: usage && {
+          inputTokens: (usage.promptTokenCount ?? 0) + (usage.toolUsePromptTokenCount ?? 0),
+          // Thinking tokens are billed as output
+          outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        },
         // Gemini doesn't provide a request ID in the standard response
       };
     } catch (error) {
-      const latencyMs = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      return errorResponse(error, startTime);
+    }
+  }
 
-      return {
-        data: null,
-        latencyMs,
-        tokenCount: 0,
-        error: errorMessage,
-      };
+  /**
+   * Map Gemini grounding chunks to normalized results.
+   *
+   * Chunk URIs are Vertex AI redirect links and chunk titles are the source
+   * domain, so the title doubles as the source. Snippets are the answer
+   * segments that cite each chunk.
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawGeminiResponse | null;
+    const chunks = response?.groundingMetadata?.groundingChunks ?? [];
+    const supports = response?.groundingMetadata?.groundingSupports ?? [];
+
+    const segmentsByChunk = new Map<number, string[]>();
+    for (const support of supports) {
+      const text = support.segment?.text;
+      if (!text) continue;
+      for (const index of support.groundingChunkIndices ?? []) {
+        const segments = segmentsByChunk.get(index) ?? [];
+        segments.push(text);
+        segmentsByChunk.set(index, segments);
+      }
     }
+
+    return {
+      results: rankResults(
+        chunks.map((chunk, index) => ({
+          url: chunk.web?.uri,
+          title: chunk.web?.title,
+          snippet: joinSnippets(segmentsByChunk.get(index)),
+          source: chunk.web?.title,
+        }))
+      ),
+      answer: response?.text,
+    };
   }
 }
@@ -0,0 +1,123 @@
+/**
+ * HTTP gateway tests, with the mock search server standing in for a search API
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { HttpGatewayDefinition } from "../types.js";
+import { HttpGateway, parseHttpGatewayDefinition } from "./http.js";
+import { registerHttpGateway, getGateway } from "./index.js";
+import { startMockSearchServer, type MockSearchServer } from "../mock-server.js";
+
+function definition(url: string, overrides: Partial<HttpGatewayDefinition> = {}): HttpGatewayDefinition {
+  return {
+    name: "mock-http",
+    method: "POST",
+    url: `${url}/search`,
+    body: { query: "{{query}}", max_results: "{{count}}", latency_ms: "{{delay}}" },
+    parameters: {
+      count: { type: "integer", min: 1, default: 2 },
+      delay: { type: "integer", min: 0 },
+    },
+    response: { results: "results", url: "url", title: "title", snippet: "snippet", date: "published_date", requestId: "request_id" },
+    ...overrides,
+  };
+}
+
+describe("HttpGateway", () => {
+  let server: MockSearchServer;
+
+  before(async () => {
+    server = await startMockSearchServer({ port: 0 });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("fills the body template and maps the response paths", async () => {
+    const gateway = new HttpGateway(definition(server.url));
+    const response = await gateway.search("Who won?", { count: 3 });
+
+    assert.equal(response.error, undefined);
+    assert.equal(response.results?.length, 3);
+    assert.equal(response.results?.[0].title, 'Result 1 for "Who won?"');
+    assert.equal(response.results?.[0].source, "example.com");
+    assert.ok(response.results?.[0].publishedDate);
+    assert.match(response.requestId ?? "", /^mock-\d+$/);
+
+    // Single placeholders keep their type; unset optional parameters are dropped
+    assert.deepEqual(server.requests.at(-1), { query: "Who won?", max_results: 3 });
+  });
+
+  it("reports HTTP errors with their status", async () => {
+    const gateway = new HttpGateway(definition(server.url, { method: "GET", body: undefined, query: { q: "{{query}}" } }));
+    const response = await gateway.search("Who won?", {});
+
+    assert.equal(response.statusCode, 404);
+    assert.equal(response.errorType, "client");
+  });
+
+  it("fails without its API key", async () => {
+    const gateway = new HttpGateway(
+      definition(server.url, { auth: { env: "SEARCH_EVALS_TEST_MISSING_KEY", header: "x-api-key" } })
+    );
+    const response = await gateway.search("Who won?", {});
+
+    assert.equal(response.error, "SEARCH_EVALS_TEST_MISSING_KEY environment variable is not set");
+    assert.equal(response.errorType, "auth");
+  });
+});
+
+describe("parseHttpGatewayDefinition", () => {
+  const valid = definition("http://127.0.0.1:8787");
+
+  it("accepts a valid definition", () => {
+    assert.equal(parseHttpGatewayDefinition(valid, "Gateway #1"), valid);
+  });
+
+  it("rejects undeclared placeholders", () => {
+    assert.throws(
+      () => parseHttpGatewayDefinition({ ...valid, query: { key: "{{apiKey}}" } }, "Gateway #1"),
+      /Gateway #1 \(mock-http\) uses undeclared placeholders: \{\{apiKey\}\}/
+    );
+  });
+
+  it("rejects a body on a GET gateway", () => {
+    assert.throws(
+      () => parseHttpGatewayDefinition({ ...valid, method: "GET" }, "Gateway #1"),
+      /has a "body" but its method is not POST/
+    );
+  });
+
+  it("rejects auth with both a header and a query parameter", () => {
+    assert.throws(
+      () => parseHttpGatewayDefinition({ ...valid, auth: { env: "KEY", header: "x-api-key", query: "key" } }, "Gateway #1"),
+      /"auth" needs exactly one of "header" or "query"/
+    );
+  });
+
+  it("rejects a response without a results path", () => {
+    assert.throws(
+      () => parseHttpGatewayDefinition({ ...valid, response: { url: "url" } }, "Gateway #1"),
+      /needs a "response" with "results" and "url" paths/
+    );
+  });
+});
+
+describe("registerHttpGateway", () => {
+  it("registers a definition once and resolves it by name", () => {
+    const registered = definition("http://127.0.0.1:8787", { name: "registry-test" });
+    registerHttpGateway(registered);
+    registerHttpGateway(registered);
+
+    assert.ok(getGateway("registry-test") instanceof HttpGateway);
+  });
+
+  it("refuses names that are taken", () => {
+    assert.throws(
+      () => registerHttpGateway(definition("http://127.0.0.1:8787", { name: "tavily" })),
+      /Gateway already registered: tavily/
+    );
+  });
+});
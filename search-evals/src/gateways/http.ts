@@ -0,0 +1,293 @@
+/**
+ * Generic HTTP Search Gateway Implementation
+ *
+ * Calls any JSON search API described by an HttpGatewayDefinition from a
+ * config file: the endpoint and method, where the API key goes, request
+ * templates with `{{query}}` and `{{<parameter>}}` placeholders, and the
+ * paths of the result fields in the response. Lets Brave-, Exa- or
+ * SerpAPI-style endpoints be benchmarked without writing a gateway class.
+ */
+
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+  ParameterType,
+  HttpGatewayDefinition,
+} from "../types.js";
+import { countTokens } from "../utils/tokens.js";
+import { errorResponse, HttpError } from "../utils/errors.js";
+import { rankResults, joinSnippets } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w-]+)\s*\}\}$/;
+
+const PARAMETER_TYPES: readonly ParameterType[] = ["string", "number", "integer", "boolean", "string[]"];
+
+/**
+ * Fill the placeholders in a request template. A string that is a single
+ * placeholder takes the value as is (numbers stay numbers); placeholders
+ * inside longer strings are interpolated. Keys and list items whose value is
+ * unset are dropped, so optional parameters can be left out of a request.
+ */
+function render(template: unknown, values: Record<string, unknown>): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(WHOLE_PLACEHOLDER);
+    if (whole) return values[whole[1]];
+    return template.replace(PLACEHOLDER, (_, name: string) => String(values[name] ?? ""));
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => render(item, values)).filter((item) => item !== undefined);
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template)
+        .map(([key, value]) => [key, render(value, values)])
+        .filter(([, value]) => value !== undefined)
+    );
+  }
+  return template;
+}
+
+/**
+ * Read a dotted path like "web.results" or "items[0].link"; an empty path
+ * is the value itself
+ */
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.match(/[^.[\]]+/g) ?? []) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * A response field as text: strings as they are, numbers formatted, lists
+ * of strings joined
+ */
+function toText(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value)) {
+    return joinSnippets(value.filter((item): item is string => typeof item === "string"));
+  }
+  return undefined;
+}
+
+/**
+ * Every placeholder name used in a template
+ */
+function placeholders(template: unknown): string[] {
+  if (typeof template === "string") {
+    return [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+  }
+  if (Array.isArray(template)) return template.flatMap(placeholders);
+  if (template && typeof template === "object") return Object.values(template).flatMap(placeholders);
+  return [];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isPlainObject(value) && Object.values(value).every((item) => typeof item === "string");
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Check the shape of an HTTP gateway definition from a config file
+ * @throws Error describing the first problem found
+ */
+export function parseHttpGatewayDefinition(entry: unknown, where: string): HttpGatewayDefinition {
+  if (!isPlainObject(entry)) {
+    throw new Error(`${where} is not an object`);
+  }
+  if (!isNonEmptyString(entry.name)) {
+    throw new Error(`${where} has an invalid or empty "name"`);
+  }
+  const label = `${where} (${entry.name})`;
+
+  if (entry.displayName !== undefined && typeof entry.displayName !== "string") {
+    throw new Error(`${label} has a non-string "displayName"`);
+  }
+  if (entry.method !== undefined && entry.method !== "GET" && entry.method !== "POST") {
+    throw new Error(`${label} has invalid "method": ${entry.method} (expected GET or POST)`);
+  }
+  if (!isNonEmptyString(entry.url) || !URL.canParse(entry.url.replace(PLACEHOLDER, "x"))) {
+    throw new Error(`${label} has an invalid or empty "url"`);
+  }
+  if (entry.headers !== undefined && !isStringRecord(entry.headers)) {
+    throw new Error(`${label} has "headers" that are not an object of strings`);
+  }
+  if (entry.auth !== undefined) {
+    const auth = entry.auth;
+    if (!isPlainObject(auth) || !isNonEmptyString(auth.env)) {
+      throw new Error(`${label} has "auth" without an "env" variable name`);
+    }
+    if (isNonEmptyString(auth.header) === isNonEmptyString(auth.query)) {
+      throw new Error(`${label} "auth" needs exactly one of "header" or "query"`);
+    }
+    if (auth.prefix !== undefined && typeof auth.prefix !== "string") {
+      throw new Error(`${label} has a non-string "auth.prefix"`);
+    }
+  }
+  if (entry.query !== undefined && !isPlainObject(entry.query)) {
+    throw new Error(`${label} has a "query" template that is not an object`);
+  }
+  if (entry.body !== undefined && entry.method !== "POST") {
+    throw new Error(`${label} has a "body" but its method is not POST`);
+  }
+  if (entry.parameters !== undefined) {
+    if (!isPlainObject(entry.parameters)) {
+      throw new Error(`${label} has "parameters" that are not an object`);
+    }
+    for (const [name, spec] of Object.entries(entry.parameters)) {
+      const types = isPlainObject(spec) ? (Array.isArray(spec.type) ? spec.type : [spec.type]) : [];
+      if (types.length === 0 || !types.every((type) => PARAMETER_TYPES.includes(type as ParameterType))) {
+        throw new Error(`${label} parameter "${name}" needs a "type" (${PARAMETER_TYPES.join(", ")})`);
+      }
+    }
+  }
+  if (entry.features !== undefined && (!Array.isArray(entry.features) || !entry.features.every(isNonEmptyString))) {
+    throw new Error(`${label} has "features" that are not a list of feature names`);
+  }
+  if (entry.timeoutMs !== undefined && (!Number.isInteger(entry.timeoutMs) || (entry.timeoutMs as number) < 1)) {
+    throw new Error(`${label} has "timeoutMs" that is not a positive integer`);
+  }
+
+  const response = entry.response;
+  if (!isPlainObject(response) || typeof response.results !== "string" || !isNonEmptyString(response.url)) {
+    throw new Error(`${label} needs a "response" with "results" and "url" paths`);
+  }
+  for (const field of ["title", "snippet", "date", "answer", "requestId"]) {
+    if (response[field] !== undefined && typeof response[field] !== "string") {
+      throw new Error(`${label} has a non-string "response.${field}" path`);
+    }
+  }
+
+  // Placeholders may only name the query or a declared parameter
+  const known = ["query", ...Object.keys(entry.parameters ?? {})];
+  const unknown = [...new Set(placeholders([entry.url, entry.query, entry.body]))].filter(
+    (name) => !known.includes(name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `${label} uses undeclared placeholders: ${unknown.map((name) => `{{${name}}}`).join(", ")} (declared: ${known.join(", ")})`
+    );
+  }
+
+  return entry as unknown as HttpGatewayDefinition;
+}
+
+export class HttpGateway implements SearchGateway {
+  readonly parameterSchema: ParameterSchema;
+
+  constructor(private readonly definition: HttpGatewayDefinition) {
+    this.parameterSchema = definition.parameters ?? {};
+  }
+
+  async search(
+    query: string,
+    parameters: Record<string, unknown>
+  ): Promise<SearchResponse> {
+    const startTime = Date.now();
+    const { definition } = this;
+
+    try {
+      const values: Record<string, unknown> = { ...resolveParameters(this.parameterSchema, parameters), query };
+
+      const url = new URL(
+        definition.url.replace(PLACEHOLDER, (_, name: string) => encodeURIComponent(String(values[name] ?? "")))
+      );
+      for (const [key, value] of Object.entries(render(definition.query ?? {}, values) as Record<string, unknown>)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          url.searchParams.append(key, String(item));
+        }
+      }
+
+      const headers: Record<string, string> = { accept: "application/json", ...definition.headers };
+      if (definition.auth) {
+        const apiKey = process.env[definition.auth.env];
+        if (!apiKey) {
+          throw new Error(`${definition.auth.env} environment variable is not set`);
+        }
+        const credential = `${definition.auth.prefix ?? ""}${apiKey}`;
+        if (definition.auth.header) {
+          headers[definition.auth.header] = credential;
+        } else {
+          url.searchParams.set(definition.auth.query!, credential);
+        }
+      }
+
+      let body: string | undefined;
+      if (definition.method === "POST") {
+        headers["content-type"] = "application/json";
+        body = JSON.stringify(render(definition.body ?? {}, values));
+      }
+
+      const response = await fetch(url, {
+        method: definition.method ?? "GET",
+        headers,
+        body,
+        signal: AbortSignal.timeout(definition.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new HttpError(
+          `${definition.displayName ?? definition.name} error ${response.status}: ${text}`,
+          response.status,
+          response.headers
+        );
+      }
+
+      const data: unknown = await response.json();
+
+      const latencyMs = Date.now() - startTime;
+      const tokenCount = countTokens(data);
+
+      return {
+        data,
+        ...this.normalize(data),
+        latencyMs,
+        tokenCount,
+        requestId: definition.response.requestId
+          ? toText(getPath(data, definition.response.requestId))
+          : undefined,
+      };
+    } catch (error) {
+      return errorResponse(error, startTime);
+    }
+  }
+
+  /**
+   * Map a response to normalized results using the definition's paths
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const mapping = this.definition.response;
+    const items = getPath(data, mapping.results);
+    const field = (item: unknown, path: string | undefined): string | undefined =>
+      path ? toText(getPath(item, path)) : undefined;
+
+    return {
+      results: rankResults(
+        (Array.isArray(items) ? items : []).map((item) => ({
+          url: field(item, mapping.url),
+          title: field(item, mapping.title),
+          snippet: field(item, mapping.snippet),
+          publishedDate: field(item, mapping.date),
+        }))
+      ),
+      answer: field(data, mapping.answer),
+    };
+  }
+}
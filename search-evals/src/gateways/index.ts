@@ -1,21 +1,181 @@
 /**
  * Gateway Registry - Resolves gateway names to implementations
+ *
+ * Each gateway registers a descriptor with its display name, the env vars it
+ * needs and the features it supports, so key checks and feature checks don't
+ * have to hard-code gateway names.
  */
 
-import type { SearchGateway } from "../types.js";
+import type {
+  SearchGateway,
+  SearchConfig,
+  GatewayDescriptor,
+  GatewayFeature,
+  QueryResult,
+  NormalizedResponse,
+  HttpGatewayDefinition,
+} from "../types.js";
 import { TavilyGateway } from "./tavily.js";
 import { ParallelGateway } from "./parallel.js";
 import { GeminiSearchGateway } from "./gemini-search.js";
 import { YouGateway } from "./you.js";
 import { PerplexityGateway } from "./perplexity.js";
+import { SearxngGateway } from "./searxng.js";
+import { MockGateway } from "./mock.js";
+import { HttpGateway } from "./http.js";
+import {
+  CassetteStore,
+  RecordingGateway,
+  ReplayGateway,
+  type CassetteMode,
+  type CassetteOptions,
+} from "./cassette.js";
+import { resolveParameters, ParameterError } from "../utils/parameters.js";
 
-const gateways: Record<string, SearchGateway> = {
-  tavily: new TavilyGateway(),
-  parallel: new ParallelGateway(),
-  "gemini-search": new GeminiSearchGateway(),
-  you: new YouGateway(),
-  perplexity: new PerplexityGateway(),
-};
+const descriptors = new Map<string, GatewayDescriptor>();
+
+/**
+ * Every feature a gateway can declare
+ */
+export const gatewayFeatures: readonly GatewayFeature[] = [
+  "recency_filter",
+  "domain_filter",
+  "synthesized_answer",
+  "country",
+  "max_results",
+];
+
+/**
+ * Add a gateway to the registry
+ * @throws Error if a gateway with the same name is already registered
+ */
+export function registerGateway(descriptor: GatewayDescriptor): void {
+  if (descriptors.has(descriptor.name)) {
+    throw new Error(`Gateway already registered: ${descriptor.name}`);
+  }
+  descriptors.set(descriptor.name, descriptor);
+}
+
+registerGateway({
+  name: "tavily",
+  displayName: "Tavily",
+  requiredEnv: ["TAVILY_API_KEY"],
+  features: ["synthesized_answer", "max_results"],
+  gateway: new TavilyGateway(),
+});
+registerGateway({
+  name: "parallel",
+  displayName: "Parallel",
+  requiredEnv: ["PARALLEL_API_KEY"],
+  features: ["max_results"],
+  gateway: new ParallelGateway(),
+});
+registerGateway({
+  name: "gemini-search",
+  displayName: "Gemini (Google Search grounding)",
+  requiredEnv: ["GEMINI_API_KEY"],
+  features: ["synthesized_answer"],
+  gateway: new GeminiSearchGateway(),
+});
+registerGateway({
+  name: "you",
+  displayName: "You.com",
+  requiredEnv: ["YOU_API_KEY"],
+  features: ["recency_filter", "country", "max_results"],
+  gateway: new YouGateway(),
+});
+registerGateway({
+  name: "perplexity",
+  displayName: "Perplexity",
+  requiredEnv: ["PERPLEXITY_API_KEY"],
+  features: ["recency_filter", "domain_filter", "country", "max_results"],
+  gateway: new PerplexityGateway(),
+});
+registerGateway({
+  name: "searxng",
+  displayName: "SearXNG (self-hosted)",
+  requiredEnv: [],
+  features: ["recency_filter"],
+  gateway: new SearxngGateway(),
+});
+registerGateway({
+  name: "mock",
+  displayName: "Mock (local test server)",
+  requiredEnv: [],
+  features: ["max_results"],
+  gateway: new MockGateway(),
+});
+
+/** Definitions of the HTTP gateways registered from config files, as JSON */
+const httpDefinitions = new Map<string, string>();
+
+/**
+ * Register an HTTP gateway defined in a config file. Registering the same
+ * definition again (the file was loaded twice) does nothing.
+ * @throws Error if the name is taken or a feature is unknown
+ */
+export function registerHttpGateway(definition: HttpGatewayDefinition): void {
+  const json = JSON.stringify(definition);
+  if (httpDefinitions.get(definition.name) === json) return;
+  if (descriptors.has(definition.name)) {
+    throw new Error(`Gateway already registered: ${definition.name}`);
+  }
+
+  const features = definition.features ?? [];
+  const unknown = features.filter((feature) => !gatewayFeatures.includes(feature));
+  if (unknown.length > 0) {
+    throw new Error(
+      `HTTP gateway ${definition.name} declares unknown features: ${unknown.join(", ")} (known: ${gatewayFeatures.join(", ")})`
+    );
+  }
+
+  registerGateway({
+    name: definition.name,
+    displayName: definition.displayName ?? definition.name,
+    requiredEnv: definition.auth ? [definition.auth.env] : [],
+    features,
+    gateway: new HttpGateway(definition),
+  });
+  httpDefinitions.set(definition.name, json);
+}
+
+let cassette: { mode: CassetteMode; store: CassetteStore } | null = null;
+const cassetteGateways = new Map<string, SearchGateway>();
+
+/**
+ * Route gateway calls through a record/replay cassette.
+ * In replay mode the cassette (or results file) must already exist;
+ * in record mode a missing cassette file is created.
+ */
+export async function configureCassette(options: CassetteOptions): Promise<number> {
+  let store: CassetteStore;
+  if (options.mode === "replay") {
+    store = await CassetteStore.load(options.path);
+  } else {
+    store = await CassetteStore.load(options.path).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return new CassetteStore(options.path);
+      throw error;
+    });
+  }
+
+  cassette = { mode: options.mode, store };
+  cassetteGateways.clear();
+  return store.size;
+}
+
+/**
+ * The active cassette mode, or null when gateways call the real APIs
+ */
+export function getCassetteMode(): CassetteMode | null {
+  return cassette?.mode ?? null;
+}
+
+/**
+ * Write the responses recorded so far to the cassette file
+ */
+export async function flushCassette(): Promise<void> {
+  await cassette?.store.flush();
+}
 
 /**
  * Get a gateway implementation by name
@@ -24,17 +184,146 @@ const gateways: Record<string, SearchGateway> = {
  * @throws Error if the gateway is not found
  */
 export function getGateway(name: string): SearchGateway {
-  const gateway = gateways[name];
-  if (!gateway) {
-    const available = Object.keys(gateways).join(", ");
+  const { gateway } = getGatewayDescriptor(name);
+  if (!cassette) {
+    return gateway;
+  }
+
+  let wrapped = cassetteGateways.get(name);
+  if (!wrapped) {
+    wrapped =
+      cassette.mode === "record"
+        ? new RecordingGateway(name, gateway, cassette.store)
+        : new ReplayGateway(name, gateway, cassette.store);
+    cassetteGateways.set(name, wrapped);
+  }
+  return wrapped;
+}
+
+/**
+ * Get a gateway's descriptor by name
+ * @throws Error if the gateway is not found
+ */
+export function getGatewayDescriptor(name: string): GatewayDescriptor {
+  const descriptor = descriptors.get(name);
+  if (!descriptor) {
+    const available = [...descriptors.keys()].join(", ");
     throw new Error(`Unknown gateway: ${name}. Available gateways: ${available}`);
   }
-  return gateway;
+  return descriptor;
+}
+
+/**
+ * All registered gateway descriptors, in registration order
+ */
+export function getGatewayDescriptors(): GatewayDescriptor[] {
+  return [...descriptors.values()];
+}
+
+/**
+ * Required env vars of a gateway that are not set
+ */
+export function getMissingEnv(name: string): string[] {
+  return getGatewayDescriptor(name).requiredEnv.filter((key) => !process.env[key]);
+}
+
+/**
+ * A config's parameters checked against its gateway's schema, with
+ * defaults filled in
+ * @throws Error if the gateway is unknown or the parameters are invalid
+ */
+export function resolveConfigParameters(config: SearchConfig): Record<string, unknown> {
+  return resolveParameters(getGateway(config.gateway).parameterSchema, config.parameters);
+}
+
+/**
+ * Features a config requires that its gateway doesn't support
+ */
+function unsupportedFeatures(config: SearchConfig): string[] {
+  const { features, displayName } = getGatewayDescriptor(config.gateway);
+  return (config.requires ?? [])
+    .filter((feature) => !features.includes(feature))
+    .map((feature) =>
+      gatewayFeatures.includes(feature)
+        ? `requires "${feature}", which ${displayName} doesn't support (supported: ${features.join(", ") || "none"})`
+        : `requires unknown feature "${feature}" (known: ${gatewayFeatures.join(", ")})`
+    );
+}
+
+/**
+ * Check every config's gateway, parameters and required features before a
+ * run starts
+ * @throws Error listing every invalid config
+ */
+export function validateConfigs(configs: SearchConfig[]): void {
+  const problems: string[] = [];
+  for (const config of configs) {
+    try {
+      resolveConfigParameters(config);
+      problems.push(...unsupportedFeatures(config).map((message) => `${config.id}: ${message}`));
+    } catch (error) {
+      const messages =
+        error instanceof ParameterError
+          ? error.problems
+          : [error instanceof Error ? error.message : String(error)];
+      problems.push(...messages.map((message) => `${config.id}: ${message}`));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configs:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
 }
 
 /**
  * Get all available gateway names
  */
 export function getAvailableGateways(): string[] {
-  return Object.keys(gateways);
+  return [...descriptors.keys()];
+}
+
+/**
+ * Get the normalized results for a stored query result.
+ * Results saved before normalization existed are mapped from their raw data.
+ */
+export function getNormalizedResponse(result: QueryResult): NormalizedResponse {
+  const { response } = result;
+  if (response.results) {
+    return { results: response.results, answer: response.answer };
+  }
+  if (response.data === null || response.data === undefined) {
+    return { results: [] };
+  }
+  return getGateway(result.gateway).normalize(response.data);
+}
+
+/**
+ * All text a reader of a stored result would see: the synthesized answer
+ * plus each result's title and snippet. Falls back to every string in the
+ * raw data when nothing could be normalized.
+ */
+export function getResponseText(result: QueryResult): string {
+  const normalized = getNormalizedResponse(result);
+  const parts: string[] = [];
+
+  if (normalized.answer) parts.push(normalized.answer);
+  for (const item of normalized.results) {
+    if (item.title) parts.push(item.title);
+    if (item.snippet) parts.push(item.snippet);
+  }
+
+  if (parts.length === 0) {
+    collectStrings(result.response.data, parts);
+  }
+  return parts.join("\n");
+}
+
+function collectStrings(value: unknown, into: string[]): void {
+  if (typeof value === "string") {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, into);
+  } else if (value && typeof value === "object") {
+    for (const item of Object.values(value)) collectStrings(item, into);
+  }
 }
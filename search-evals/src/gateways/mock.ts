@@ -0,0 +1,119 @@
+/**
+ * Mock Search Gateway Implementation
+ *
+ * Calls the local mock search server (src/mock-server.ts) at MOCK_SEARCH_URL,
+ * http://127.0.0.1:8787 by default. Needs no API key; its parameters choose
+ * the latency and failure the server simulates.
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
+import { countTokens } from "../utils/tokens.js";
+import { errorResponse, HttpError } from "../utils/errors.js";
+import { rankResults } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
+import { mockScenarios, type MockScenario } from "../mock-server.js";
+
+const DEFAULT_BASE_URL = "http://127.0.0.1:8787";
+
+/** Sent with every request, so each run's fail_first counts start afresh on a long-running server */
+const SESSION = randomUUID();
+
+/**
+ * Fields of the mock search response used for normalization
+ */
+interface RawMockResponse {
+  request_id?: string;
+  results?: Array<{
+    url?: string;
+    title?: string;
+    snippet?: string;
+    published_date?: string;
+  }>;
+}
+
+/**
+ * Parameters accepted by the mock gateway (snake_case, like the server)
+ */
+interface MockParameters {
+  max_results: number;
+  scenario: MockScenario;
+  fail_first?: number;
+  latency_ms?: number;
+  timeout_ms: number;
+}
+
+const parameterSchema: ParameterSchema = {
+  max_results: { type: "integer", min: 1, max: 20, default: 5 },
+  scenario: { type: "string", enum: mockScenarios, default: "ok" },
+  fail_first: { type: "integer", min: 0 },
+  latency_ms: { type: "integer", min: 0 },
+  timeout_ms: { type: "integer", min: 1, default: 30000 },
+};
+
+export class MockGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
+  async search(
+    query: string,
+    parameters: Record<string, unknown>
+  ): Promise<SearchResponse> {
+    const startTime = Date.now();
+
+    try {
+      const { timeout_ms, ...options } = resolveParameters<MockParameters>(parameterSchema, parameters);
+      // Read on every call so a server started later (e.g. in tests) is used
+      const baseURL = (process.env.MOCK_SEARCH_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+      const response = await fetch(`${baseURL}/search`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ query, ...options, session: SESSION }),
+        signal: AbortSignal.timeout(timeout_ms),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new HttpError(`Mock search error ${response.status}: ${body}`, response.status, response.headers);
+      }
+
+      const data = (await response.json()) as RawMockResponse;
+
+      const latencyMs = Date.now() - startTime;
+      const tokenCount = countTokens(data);
+
+      return {
+        data,
+        ...this.normalize(data),
+        latencyMs,
+        tokenCount,
+        requestId: data.request_id,
+      };
+    } catch (error) {
+      return errorResponse(error, startTime);
+    }
+  }
+
+  /**
+   * Map a mock server response to normalized results
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawMockResponse | null;
+
+    return {
+      results: rankResults(
+        (response?.results ?? []).map((result) => ({
+          url: result.url,
+          title: result.title,
+          snippet: result.snippet,
+          publishedDate: result.published_date,
+        }))
+      ),
+    };
+  }
+}
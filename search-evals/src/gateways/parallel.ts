@@ -3,8 +3,16 @@
  */
 
 import Parallel from "parallel-web";
-import type { SearchGateway, SearchResponse } from "../types.js";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
 import { countTokens } from "../utils/tokens.js";
+import { errorResponse } from "../utils/errors.js";
+import { rankResults, joinSnippets } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
 
 let client: Parallel | null = null;
 
@@ -19,7 +27,34 @@ function getClient(): Parallel {
   return client;
 }
 
+/**
+ * Fields of the Parallel search response used for normalization
+ */
+interface RawParallelResponse {
+  results?: Array<{
+    url?: string;
+    title?: string | null;
+    excerpts?: string[] | null;
+    publish_date?: string | null;
+  }>;
+}
+
+/**
+ * Parameters accepted by the Parallel gateway
+ */
+interface ParallelParameters {
+  max_results: number;
+  max_chars_per_result: number;
+}
+
+const parameterSchema: ParameterSchema = {
+  max_results: { type: "integer", min: 1, default: 2 },
+  max_chars_per_result: { type: "integer", min: 1, default: 4000 },
+};
+
 export class ParallelGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
   async search(
     query: string,
     parameters: Record<string, unknown>
@@ -30,15 +65,13 @@ export class ParallelGateway implements SearchGateway {
       const parallelClient = getClient();
 
       // Build search options from parameters
-      const maxResults = (parameters.max_results as number) ?? 2;
-      const maxCharsPerResult =
-        (parameters.max_chars_per_result as number) ?? 4000;
+      const options = resolveParameters<ParallelParameters>(parameterSchema, parameters);
 
       const response = await parallelClient.beta.search({
         search_queries: [query],
-        max_results: maxResults,
+        max_results: options.max_results,
         excerpts: {
-          max_chars_per_result: maxCharsPerResult,
+          max_chars_per_result: options.max_chars_per_result,
         },
       });
 
@@ -47,6 +80,7 @@ export class ParallelGateway implements SearchGateway {
 
       return {
         data: response,
+        ...this.normalize(response),
         latencyMs,
         tokenCount,
         // Check if Parallel provides a request ID
@@ -55,16 +89,25 @@ export class ParallelGateway implements SearchGateway {
           | undefined,
       };
     } catch (error) {
-      const latencyMs = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      return {
-        data: null,
-        latencyMs,
-        tokenCount: 0,
-        error: errorMessage,
-      };
+      return errorResponse(error, startTime);
     }
   }
+
+  /**
+   * Map a Parallel response to normalized results
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawParallelResponse | null;
+
+    return {
+      results: rankResults(
+        (response?.results ?? []).map((result) => ({
+          url: result.url,
+          title: result.title,
+          snippet: joinSnippets(result.excerpts),
+          publishedDate: result.publish_date,
+        }))
+      ),
+    };
+  }
 }
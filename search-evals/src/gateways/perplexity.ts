@@ -3,8 +3,16 @@
  */
 
 import Perplexity from "@perplexity-ai/perplexity_ai";
-import type { SearchGateway, SearchResponse } from "../types.js";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
 import { countTokens } from "../utils/tokens.js";
+import { errorResponse } from "../utils/errors.js";
+import { rankResults } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
 
 let client: Perplexity | null = null;
 
@@ -19,7 +27,41 @@ function getClient(): Perplexity {
   return client;
 }
 
+/**
+ * Fields of the Perplexity search response used for normalization
+ */
+interface RawPerplexityResponse {
+  results?: Array<{
+    url?: string;
+    title?: string;
+    snippet?: string;
+    date?: string | null;
+    last_updated?: string | null;
+  }>;
+}
+
+/**
+ * Parameters accepted by the Perplexity gateway (snake_case, like the SDK)
+ */
+interface PerplexityParameters {
+  max_results: number;
+  max_tokens_per_page?: number;
+  search_recency_filter?: "hour" | "day" | "week" | "month" | "year";
+  country?: string;
+  search_domain_filter?: string[];
+}
+
+const parameterSchema: ParameterSchema = {
+  max_results: { type: "integer", min: 1, max: 20, default: 5 },
+  max_tokens_per_page: { type: "integer", min: 1 },
+  search_recency_filter: { type: "string", enum: ["hour", "day", "week", "month", "year"] },
+  country: { type: "string" },
+  search_domain_filter: { type: "string[]" },
+};
+
 export class PerplexityGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
   async search(
     query: string,
     parameters: Record<string, unknown>
@@ -31,38 +73,11 @@ export class PerplexityGateway implements SearchGateway {
 
       // Build search options from parameters
       // Note: Perplexity SDK uses snake_case for parameter names
-      const searchOptions: {
-        query: string;
-        max_results?: number;
-        max_tokens_per_page?: number;
-        search_recency_filter?: "hour" | "day" | "week" | "month" | "year";
-        country?: string;
-        search_domain_filter?: string[];
-      } = {
+      const searchOptions: { query: string } & PerplexityParameters = {
         query,
-        max_results: (parameters.max_results as number) ?? 5,
+        ...resolveParameters<PerplexityParameters>(parameterSchema, parameters),
       };
 
-      // Optional parameters
-      if (parameters.max_tokens_per_page) {
-        searchOptions.max_tokens_per_page = parameters.max_tokens_per_page as number;
-      }
-      if (parameters.search_recency_filter) {
-        searchOptions.search_recency_filter = parameters.search_recency_filter as
-          | "hour"
-          | "day"
-          | "week"
-          | "month"
-          | "year";
-      }
-      if (parameters.country) {
-        searchOptions.country = parameters.country as string;
-      }
-      if (parameters.search_domain_filter) {
-        searchOptions.search_domain_filter =
-          parameters.search_domain_filter as string[];
-      }
-
       const response = await perplexityClient.search.create(searchOptions);
 
       const latencyMs = Date.now() - startTime;
@@ -70,22 +85,32 @@ export class PerplexityGateway implements SearchGateway {
 
       return {
         data: response,
+        ...this.normalize(response),
         latencyMs,
         tokenCount,
         // Extract request ID if available
         requestId: response.id,
       };
     } catch (error) {
-      const latencyMs = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      return {
-        data: null,
-        latencyMs,
-        tokenCount: 0,
-        error: errorMessage,
-      };
+      return errorResponse(error, startTime);
     }
   }
+
+  /**
+   * Map a Perplexity response to normalized results
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawPerplexityResponse | null;
+
+    return {
+      results: rankResults(
+        (response?.results ?? []).map((result) => ({
+          url: result.url,
+          title: result.title,
+          snippet: result.snippet,
+          publishedDate: result.date ?? result.last_updated,
+        }))
+      ),
+    };
+  }
 }
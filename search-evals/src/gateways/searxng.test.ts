@@ -0,0 +1,104 @@
+/**
+ * SearXNG gateway tests, against a stub instance
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { SearxngGateway } from "./searxng.js";
+
+const searchResponse = {
+  query: "la liga 2023-24",
+  results: [
+    {
+      url: "https://www.example.com/la-liga",
+      title: " Real Madrid win La Liga ",
+      content: "Real Madrid won the 2023-24 title with 95 points.",
+      publishedDate: "2024-05-04T00:00:00",
+      engine: "bing",
+    },
+    { title: "No URL", content: "Dropped" },
+    { url: "https://news.example.org/a", title: "Title only", publishedDate: null },
+  ],
+  answers: ["Real Madrid", { answer: "95 points" }],
+};
+
+describe("SearxngGateway", () => {
+  let server: Server;
+  let lastUrl: URL | undefined;
+  const gateway = new SearxngGateway();
+
+  before(async () => {
+    server = createServer((request, response) => {
+      lastUrl = new URL(request.url ?? "/", "http://localhost");
+      if (lastUrl.searchParams.get("q") === "forbidden") {
+        response.writeHead(403, { "content-type": "text/html" });
+        response.end("Forbidden");
+        return;
+      }
+      response.writeHead(200, { "content-type": "application/json" });
+      response.end(JSON.stringify(searchResponse));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    process.env.SEARXNG_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    delete process.env.SEARXNG_BASE_URL;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("sends the parameters as SearXNG query string fields", async () => {
+    await gateway.search("la liga 2023-24", {
+      engines: ["bing", "duckduckgo"],
+      categories: ["news"],
+      language: "en",
+      time_range: "week",
+    });
+
+    assert.equal(lastUrl?.pathname, "/search");
+    assert.deepEqual(Object.fromEntries(lastUrl?.searchParams ?? []), {
+      q: "la liga 2023-24",
+      format: "json",
+      engines: "bing,duckduckgo",
+      categories: "news",
+      language: "en",
+      time_range: "week",
+    });
+  });
+
+  it("maps results and answers to the normalized shape", async () => {
+    const response = await gateway.search("la liga 2023-24", {});
+
+    assert.equal(response.error, undefined);
+    assert.deepEqual(response.results, [
+      {
+        rank: 1,
+        url: "https://www.example.com/la-liga",
+        title: "Real Madrid win La Liga",
+        snippet: "Real Madrid won the 2023-24 title with 95 points.",
+        publishedDate: new Date("2024-05-04T00:00:00").toISOString(),
+        source: "example.com",
+      },
+      {
+        rank: 2,
+        url: "https://news.example.org/a",
+        title: "Title only",
+        snippet: undefined,
+        publishedDate: undefined,
+        source: "news.example.org",
+      },
+    ]);
+    assert.equal(response.answer, "Real Madrid\n95 points");
+  });
+
+  it("explains a 403 from an instance without the json format", async () => {
+    const response = await gateway.search("forbidden", {});
+
+    assert.equal(response.statusCode, 403);
+    assert.equal(response.errorType, "auth");
+    assert.match(response.error ?? "", /is the json format enabled in settings\.yml\?/);
+  });
+});
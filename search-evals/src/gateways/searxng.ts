@@ -0,0 +1,128 @@
+/**
+ * SearXNG Search Gateway Implementation
+ *
+ * Calls the JSON API of a self-hosted SearXNG instance at SEARXNG_BASE_URL
+ * (http://localhost:8080 by default). Needs no API key and costs nothing
+ * per query. The instance must allow the json format (`search.formats` in
+ * its settings.yml).
+ */
+
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
+import { countTokens } from "../utils/tokens.js";
+import { errorResponse, HttpError } from "../utils/errors.js";
+import { rankResults } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
+
+const DEFAULT_BASE_URL = "http://localhost:8080";
+const TIMEOUT_MS = 30000;
+
+/**
+ * Fields of the SearXNG search response used for normalization
+ */
+interface RawSearxngResponse {
+  results?: Array<{
+    url?: string;
+    title?: string;
+    content?: string;
+    publishedDate?: string | null;
+  }>;
+  /** Plain strings in older versions, objects in newer ones */
+  answers?: Array<string | { answer?: string }>;
+}
+
+/**
+ * Parameters accepted by the SearXNG gateway (named like the API's)
+ */
+interface SearxngParameters {
+  engines?: string[];
+  categories?: string[];
+  language?: string;
+  time_range?: "day" | "week" | "month" | "year";
+}
+
+const parameterSchema: ParameterSchema = {
+  // Engine and category names as configured on the instance, e.g. [google, bing]
+  engines: { type: "string[]" },
+  categories: { type: "string[]" },
+  // Language code, e.g. en or en-US
+  language: { type: "string" },
+  time_range: { type: "string", enum: ["day", "week", "month", "year"] },
+};
+
+export class SearxngGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
+  async search(
+    query: string,
+    parameters: Record<string, unknown>
+  ): Promise<SearchResponse> {
+    const startTime = Date.now();
+
+    try {
+      const options = resolveParameters<SearxngParameters>(parameterSchema, parameters);
+      const baseURL = (process.env.SEARXNG_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+      const url = new URL(`${baseURL}/search`);
+      url.searchParams.set("q", query);
+      url.searchParams.set("format", "json");
+      if (options.engines) url.searchParams.set("engines", options.engines.join(","));
+      if (options.categories) url.searchParams.set("categories", options.categories.join(","));
+      if (options.language) url.searchParams.set("language", options.language);
+      if (options.time_range) url.searchParams.set("time_range", options.time_range);
+
+      const response = await fetch(url, {
+        headers: { accept: "application/json" },
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        // SearXNG answers 403 when the json format is not enabled
+        const hint = response.status === 403 ? " (is the json format enabled in settings.yml?)" : "";
+        throw new HttpError(`SearXNG error ${response.status}${hint}: ${body}`, response.status, response.headers);
+      }
+
+      const data = (await response.json()) as RawSearxngResponse;
+
+      const latencyMs = Date.now() - startTime;
+      const tokenCount = countTokens(data);
+
+      return {
+        data,
+        ...this.normalize(data),
+        latencyMs,
+        tokenCount,
+        // SearXNG doesn't provide a request ID in the response
+      };
+    } catch (error) {
+      return errorResponse(error, startTime);
+    }
+  }
+
+  /**
+   * Map a SearXNG response to normalized results
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawSearxngResponse | null;
+    const answers = (response?.answers ?? [])
+      .map((answer) => (typeof answer === "string" ? answer : answer?.answer))
+      .filter((answer): answer is string => !!answer);
+
+    return {
+      results: rankResults(
+        (response?.results ?? []).map((result) => ({
+          url: result.url,
+          title: result.title,
+          snippet: result.content,
+          publishedDate: result.publishedDate,
+        }))
+      ),
+      answer: answers.length > 0 ? answers.join("\n") : undefined,
+    };
+  }
+}
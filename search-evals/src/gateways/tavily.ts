@@ -3,8 +3,16 @@
  */
 
 import { tavily, TavilyClient } from "@tavily/core";
-import type { SearchGateway, SearchResponse } from "../types.js";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
 import { countTokens } from "../utils/tokens.js";
+import { errorResponse } from "../utils/errors.js";
+import { rankResults } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
 
 let client: TavilyClient | null = null;
 
@@ -19,7 +27,43 @@ function getClient(): TavilyClient {
   return client;
 }
 
+/**
+ * Fields of the Tavily search response used for normalization
+ */
+interface RawTavilyResponse {
+  answer?: string | null;
+  results?: Array<{
+    url?: string;
+    title?: string;
+    content?: string;
+    publishedDate?: string;
+  }>;
+}
+
+/**
+ * Parameters accepted by the Tavily gateway
+ */
+interface TavilyParameters {
+  searchDepth: "basic" | "advanced";
+  includeAnswer: boolean;
+  includeRawContent: false | "markdown" | "text";
+  includeImageDescriptions: boolean;
+  includeFavicon: boolean;
+  maxResults: number;
+}
+
+const parameterSchema: ParameterSchema = {
+  searchDepth: { type: "string", enum: ["basic", "advanced"], default: "basic" },
+  includeAnswer: { type: "boolean", default: false },
+  includeRawContent: { type: ["boolean", "string"], enum: [false, "markdown", "text"], default: false },
+  includeImageDescriptions: { type: "boolean", default: false },
+  includeFavicon: { type: "boolean", default: true },
+  maxResults: { type: "integer", min: 1, max: 20, default: 5 },
+};
+
 export class TavilyGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
   async search(
     query: string,
     parameters: Record<string, unknown>
@@ -30,16 +74,7 @@ export class TavilyGateway implements SearchGateway {
       const tavilyClient = getClient();
 
       // Build search options from parameters
-      const searchOptions = {
-        searchDepth: (parameters.searchDepth as "basic" | "advanced") ?? "basic",
-        includeAnswer: (parameters.includeAnswer as boolean) ?? false,
-        includeRawContent:
-          (parameters.includeRawContent as false | "markdown" | "text") ?? false,
-        includeImageDescriptions:
-          (parameters.includeImageDescriptions as boolean) ?? false,
-        includeFavicon: (parameters.includeFavicon as boolean) ?? true,
-        maxResults: (parameters.maxResults as number) ?? 5,
-      };
+      const searchOptions = resolveParameters<TavilyParameters>(parameterSchema, parameters);
 
       const response = await tavilyClient.search(query, searchOptions);
 
@@ -48,21 +83,32 @@ export class TavilyGateway implements SearchGateway {
 
       return {
         data: response,
+        ...this.normalize(response),
         latencyMs,
         tokenCount,
         // Tavily doesn't provide a request ID in the response
       };
     } catch (error) {
-      const latencyMs = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      return {
-        data: null,
-        latencyMs,
-        tokenCount: 0,
-        error: errorMessage,
-      };
+      return errorResponse(error, startTime);
     }
   }
+
+  /**
+   * Map a Tavily response to normalized results
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawTavilyResponse | null;
+
+    return {
+      results: rankResults(
+        (response?.results ?? []).map((result) => ({
+          url: result.url,
+          title: result.title,
+          snippet: result.content,
+          publishedDate: result.publishedDate,
+        }))
+      ),
+      answer: response?.answer ?? undefined,
+    };
+  }
 }
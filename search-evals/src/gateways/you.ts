@@ -3,8 +3,16 @@
  */
 
 import { You } from "@youdotcom-oss/sdk";
-import type { SearchGateway, SearchResponse } from "../types.js";
+import type {
+  SearchGateway,
+  SearchResponse,
+  NormalizedResponse,
+  ParameterSchema,
+} from "../types.js";
 import { countTokens } from "../utils/tokens.js";
+import { errorResponse } from "../utils/errors.js";
+import { rankResults, joinSnippets } from "../utils/normalize.js";
+import { resolveParameters } from "../utils/parameters.js";
 
 let client: You | null = null;
 
@@ -19,7 +27,48 @@ function getClient(): You {
   return client;
 }
 
+/**
+ * Fields of a You.com search hit used for normalization
+ */
+interface RawYouHit {
+  url?: string;
+  title?: string;
+  description?: string;
+  snippets?: string[];
+  pageAge?: string;
+}
+
+/**
+ * Fields of the You.com search response used for normalization
+ */
+interface RawYouResponse {
+  results?: {
+    web?: RawYouHit[];
+    news?: RawYouHit[];
+  };
+}
+
+/**
+ * Parameters accepted by the You.com gateway
+ */
+interface YouParameters {
+  count: number;
+  freshness?: string;
+  country?: string;
+  safesearch?: string;
+}
+
+const parameterSchema: ParameterSchema = {
+  count: { type: "integer", min: 1, max: 100, default: 10 },
+  // day, week, month, year or a range like 2024-01-01to2024-06-30
+  freshness: { type: "string" },
+  country: { type: "string" },
+  safesearch: { type: "string", enum: ["off", "moderate", "strict"] },
+};
+
 export class YouGateway implements SearchGateway {
+  readonly parameterSchema = parameterSchema;
+
   async search(
     query: string,
     parameters: Record<string, unknown>
@@ -30,28 +79,11 @@ export class YouGateway implements SearchGateway {
       const youClient = getClient();
 
       // Build search options from parameters
-      const searchRequest: {
-        query: string;
-        count?: number;
-        freshness?: string;
-        country?: string;
-        safesearch?: string;
-      } = {
+      const searchRequest: { query: string } & YouParameters = {
         query,
-        count: (parameters.count as number) ?? 10,
+        ...resolveParameters<YouParameters>(parameterSchema, parameters),
       };
 
-      // Optional parameters
-      if (parameters.freshness) {
-        searchRequest.freshness = parameters.freshness as string;
-      }
-      if (parameters.country) {
-        searchRequest.country = parameters.country as string;
-      }
-      if (parameters.safesearch) {
-        searchRequest.safesearch = parameters.safesearch as string;
-      }
-
       const response = await youClient.search(searchRequest);
 
       const latencyMs = Date.now() - startTime;
@@ -59,22 +91,36 @@ export class YouGateway implements SearchGateway {
 
       return {
         data: response,
+        ...this.normalize(response),
         latencyMs,
         tokenCount,
         // Extract search UUID if available
         requestId: response.metadata?.searchUuid,
       };
     } catch (error) {
-      const latencyMs = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      return {
-        data: null,
-        latencyMs,
-        tokenCount: 0,
-        error: errorMessage,
-      };
+      return errorResponse(error, startTime);
     }
   }
+
+  /**
+   * Map a You.com response to normalized results (web hits, then news hits)
+   */
+  normalize(data: unknown): NormalizedResponse {
+    const response = data as RawYouResponse | null;
+    const hits = [
+      ...(response?.results?.web ?? []),
+      ...(response?.results?.news ?? []),
+    ];
+
+    return {
+      results: rankResults(
+        hits.map((hit) => ({
+          url: hit.url,
+          title: hit.title,
+          snippet: joinSnippets(hit.snippets) ?? hit.description,
+          publishedDate: hit.pageAge,
+        }))
+      ),
+    };
+  }
 }
@@ -6,45 +6,266 @@
  * Usage:
  *   npm run eval          - Run searches only
  *   npm run eval:full     - Run searches + LLM evaluation
+ *
+ * Options:
+ *   --with-eval           - Run LLM evaluation after the searches
+ *   --concurrency <n>     - Max requests in flight across all gateways
+ *   --max-attempts <n>    - Attempts per call before giving up on transient errors
+ *   --record <cassette>   - Record every gateway response to a cassette
+ *   --replay <cassette>   - Serve responses from a cassette or results file
+ *                           instead of calling the APIs
+ *   --resume <runId>      - Continue an interrupted run from its checkpoint
+ *   --judge <backend>     - Judge backend for --with-eval (openai,
+ *                           openai-compatible, anthropic)
+ *   --judge-model <name>  - Judge model
+ *   --judge-base-url <u>  - Base URL for the judge API
+ *   --config-file <path>  - Load configs from this JSON/YAML file instead of
+ *                           configs/default.yaml (repeatable)
+ *   --config <id>         - Only run configs matching the id (glob, repeatable)
+ *   --gateway <name>      - Only run configs of matching gateways (glob, repeatable)
+ *   --query-file <path>   - Load queries from this file instead of queries/
+ *                           (repeatable)
+ *   --query-match <regex> - Only run queries whose text matches (case-insensitive)
+ *   --limit <n>           - Only run the first n queries
+ *   --sample <n>          - Only run a random sample of n queries
+ *   --seed <s>            - Seed for --sample (printed when omitted)
+ *   --repeat <n>          - Run each query × config pair n times
+ *   --repeat-delay <sec>  - Pause between trial rounds
+ *   --list-gateways       - List registered gateways, their API keys and features
+ *   --dry-run             - Print the planned combinations and call count
+ *                           without calling anything
  */
 
 import "dotenv/config";
-import { configs } from "./configs.js";
-import { runEvaluation, saveResults, printSummary } from "./runner.js";
+import { parseArgs } from "node:util";
+import { resolve } from "node:path";
+import { loadConfigs, defaultConcurrency, gatewayLimits } from "./configs.js";
+import {
+  runEvaluation,
+  saveResults,
+  printSummary,
+  defaultRetryOptions,
+  createRunId,
+  runIdToDate,
+  planRun,
+  printPlan,
+} from "./runner.js";
 import { evaluate } from "./evaluator.js";
+import { score } from "./scorer.js";
+import {
+  configureCassette,
+  flushCassette,
+  validateConfigs,
+  getGatewayDescriptors,
+  getMissingEnv,
+} from "./gateways/index.js";
+import { resolveCassettePath } from "./gateways/cassette.js";
+import { parsePositiveInt, parseInteger, parseNonNegativeNumber } from "./utils/args.js";
+import { selectConfigs } from "./utils/select.js";
+import { createJudge, resolveJudgeOptions } from "./judges/index.js";
+import type { Judge, QuerySelection, SearchConfig } from "./types.js";
+
+/**
+ * Print every registered gateway with its API keys, features and parameters
+ */
+function listGateways(): void {
+  for (const descriptor of getGatewayDescriptors()) {
+    const missing = getMissingEnv(descriptor.name);
+    const keys = descriptor.requiredEnv
+      .map((key) => `${key} ${missing.includes(key) ? "✗" : "✓"}`)
+      .join(", ");
+    console.log(`${descriptor.name} - ${descriptor.displayName}`);
+    console.log(`  Keys:       ${keys || "none"}`);
+    console.log(`  Features:   ${descriptor.features.join(", ") || "none"}`);
+    console.log(`  Parameters: ${Object.keys(descriptor.gateway.parameterSchema).join(", ") || "none"}`);
+  }
+}
 
 async function main(): Promise<void> {
-  const withEval = process.argv.includes("--with-eval");
+  const { values: args } = parseArgs({
+    options: {
+      "with-eval": { type: "boolean", default: false },
+      concurrency: { type: "string" },
+      "max-attempts": { type: "string" },
+      record: { type: "string" },
+      replay: { type: "string" },
+      resume: { type: "string" },
+      judge: { type: "string" },
+      "judge-model": { type: "string" },
+      "judge-base-url": { type: "string" },
+      "config-file": { type: "string", multiple: true },
+      config: { type: "string", multiple: true },
+      gateway: { type: "string", multiple: true },
+      "query-file": { type: "string", multiple: true },
+      "query-match": { type: "string" },
+      limit: { type: "string" },
+      sample: { type: "string" },
+      seed: { type: "string" },
+      repeat: { type: "string" },
+      "repeat-delay": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      "list-gateways": { type: "boolean", default: false },
+    },
+  });
+
+  if (args["list-gateways"]) {
+    // Config files can define HTTP gateways; load them so they are listed too
+    await loadConfigs(args["config-file"]?.map((file) => resolve(file)));
+    listGateways();
+    return;
+  }
+
+  const withEval = args["with-eval"];
+  const dryRun = args["dry-run"];
+
+  let concurrency: number;
+  let maxAttempts: number;
+  let selectedConfigs: SearchConfig[];
+  let selection: QuerySelection;
+  let repeat: number | undefined;
+  let repeatDelayMs: number | undefined;
+  try {
+    concurrency = parsePositiveInt(args.concurrency, "concurrency") ?? defaultConcurrency;
+    maxAttempts =
+      parsePositiveInt(args["max-attempts"], "max-attempts") ??
+      defaultRetryOptions.maxAttempts;
+
+    const configs = await loadConfigs(args["config-file"]?.map((file) => resolve(file)));
+    selectedConfigs = selectConfigs(configs, args.config, args.gateway);
+    if (selectedConfigs.length === 0) {
+      throw new Error("--config and --gateway together match no configs");
+    }
+    validateConfigs(selectedConfigs);
+
+    repeat = parsePositiveInt(args.repeat, "repeat");
+    const repeatDelay = parseNonNegativeNumber(args["repeat-delay"], "repeat-delay");
+    if (repeatDelay !== undefined && (repeat ?? 1) < 2) {
+      throw new Error("--repeat-delay only applies with --repeat of 2 or more");
+    }
+    repeatDelayMs = repeatDelay === undefined ? undefined : repeatDelay * 1000;
+
+    if (args.limit && args.sample) {
+      throw new Error("--limit and --sample cannot be combined");
+    }
+    if (args.seed !== undefined && !args.sample) {
+      throw new Error("--seed only applies with --sample");
+    }
+    let queryMatch: RegExp | undefined;
+    if (args["query-match"] !== undefined) {
+      try {
+        queryMatch = new RegExp(args["query-match"], "i");
+      } catch (error) {
+        throw new Error(`--query-match is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    const sample = parsePositiveInt(args.sample, "sample");
+    selection = {
+      queryFiles: args["query-file"]?.map((file) => resolve(file)),
+      queryMatch,
+      limit: parsePositiveInt(args.limit, "limit"),
+      sample,
+      // Left unset, planRun draws a seed; a resumed run reuses its recorded one
+      seed: parseInteger(args.seed, "seed"),
+    };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (args.record && args.replay) {
+    console.error("Error: --record and --replay cannot be combined");
+    process.exit(1);
+  }
+
+  const runId = args.resume ?? createRunId(new Date());
+  if (args.resume) {
+    try {
+      runIdToDate(args.resume);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
 
   console.log("Search Evals - Evaluation Framework");
   console.log("===================================");
   console.log("");
 
-  // Validate environment
-  const missingKeys: string[] = [];
-  if (!process.env.TAVILY_API_KEY) {
-    missingKeys.push("TAVILY_API_KEY");
+  if (args.record || args.replay) {
+    const mode = args.replay ? "replay" : "record";
+    const path = resolveCassettePath((args.replay ?? args.record)!);
+    try {
+      const entries = await configureCassette({ mode, path });
+      console.log(`Cassette ${mode} mode: ${path} (${entries} recorded responses)`);
+      console.log("");
+    } catch (error) {
+      console.error(`Error: could not open cassette ${path}:`, error);
+      process.exit(1);
+    }
   }
-  if (!process.env.PARALLEL_API_KEY) {
-    missingKeys.push("PARALLEL_API_KEY");
+
+  if (dryRun) {
+    console.log(`Planning evaluation run: ${runId}`);
+    try {
+      const plan = await planRun(selectedConfigs, { runId, selection, repeat });
+      printPlan(plan, { ...defaultRetryOptions, maxAttempts: args.replay ? 1 : maxAttempts });
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    return;
   }
 
-  if (missingKeys.length > 0) {
+  // Finished combinations are already checkpointed; point at how to resume
+  process.once("SIGINT", () => {
+    console.log("");
+    console.log(`Interrupted. Resume with: npm run eval -- --resume ${runId}`);
+    // Keep the responses recorded so far
+    void flushCassette().finally(() => process.exit(130));
+  });
+
+  // Validate environment
+  const selectedGateways = new Set(selectedConfigs.map((config) => config.gateway));
+  const missingKeys = [...selectedGateways].flatMap(getMissingEnv);
+
+  if (missingKeys.length > 0 && !args.replay) {
     console.warn(`Warning: Missing API keys: ${missingKeys.join(", ")}`);
     console.warn("Configs requiring missing keys will be skipped. Set them in .env.");
     console.warn("");
   }
 
-  // Warn if --with-eval but no OpenAI key
-  if (withEval && !process.env.OPENAI_API_KEY) {
-    console.warn("Warning: --with-eval specified but OPENAI_API_KEY is not set.");
-    console.warn("LLM evaluation will fail. Set it in .env.");
-    console.warn("");
+  // Set up the judge before spending money on searches
+  let judge: Judge | undefined;
+  if (withEval) {
+    try {
+      judge = createJudge(
+        resolveJudgeOptions({
+          backend: args.judge,
+          model: args["judge-model"],
+          baseURL: args["judge-base-url"],
+        })
+      );
+    } catch (error) {
+      console.error(`Error: --with-eval specified but the judge is not usable: ${error instanceof Error ? error.message : error}`);
+      console.error("Set the judge's API key in .env, or run without --with-eval.");
+      process.exit(1);
+    }
   }
 
   try {
     // Run evaluation
-    const runResult = await runEvaluation(configs);
+    const runResult = await runEvaluation(selectedConfigs, {
+      runId,
+      resume: !!args.resume,
+      selection,
+      repeat,
+      repeatDelayMs,
+      concurrency,
+      gatewayLimits,
+      // Replayed responses never change, so retrying them is pointless
+      retry: { ...defaultRetryOptions, maxAttempts: args.replay ? 1 : maxAttempts },
+    });
+    await flushCassette();
 
     // Save results
     const filepath = await saveResults(runResult);
@@ -54,11 +275,14 @@ async function main(): Promise<void> {
     // Print summary
     printSummary(runResult);
 
+    // Rule-based ground truth coverage is free, so run it every time
+    await score(filepath);
+
     // Run LLM evaluation if requested
-    if (withEval) {
+    if (judge) {
       console.log("");
       console.log("Running LLM evaluation...");
-      await evaluate(filepath);
+      await evaluate(filepath, { judge });
     }
 
     // Exit with error code if there were failures
@@ -68,6 +292,7 @@ async function main(): Promise<void> {
     }
   } catch (error) {
     console.error("Fatal error during evaluation:", error);
+    await flushCassette().catch(() => undefined);
     process.exit(1);
   }
 }
@@ -0,0 +1,93 @@
+/**
+ * Anthropic Judge Implementation
+ *
+ * Calls the Anthropic Messages API (or a compatible endpoint) directly with
+ * fetch. Structured output is enforced by forcing a single tool call whose
+ * input schema is the requested JSON schema.
+ */
+
+import type { Judge, JudgeRequest, JudgeResponse } from "../types.js";
+import { HttpError } from "../utils/errors.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface AnthropicJudgeOptions {
+  model: string;
+  /** Base URL of a Messages-compatible API; defaults to api.anthropic.com */
+  baseURL?: string;
+  /** API key; defaults to ANTHROPIC_API_KEY */
+  apiKey?: string;
+  maxTokens?: number;
+}
+
+interface MessagesResponse {
+  content: Array<{ type: string; name?: string; input?: unknown; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+export class AnthropicJudge implements Judge {
+  readonly name = "anthropic";
+  readonly model: string;
+  private readonly apiKey: string;
+  private readonly baseURL: string;
+  private readonly maxTokens: number;
+
+  constructor(options: AnthropicJudgeOptions) {
+    const apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is not set");
+    }
+
+    this.model = options.model;
+    this.apiKey = apiKey;
+    this.baseURL = (options.baseURL ?? "https://api.anthropic.com").replace(/\/+$/, "");
+    this.maxTokens = options.maxTokens ?? 4096;
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        messages: [{ role: "user", content: request.prompt }],
+        tools: [
+          {
+            name: request.schemaName,
+            description: "Record the evaluation results",
+            input_schema: request.schema,
+          },
+        ],
+        tool_choice: { type: "tool", name: request.schemaName },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new HttpError(
+        `Anthropic API error ${response.status}: ${body}`,
+        response.status,
+        response.headers
+      );
+    }
+
+    const message = (await response.json()) as MessagesResponse;
+    const toolUse = message.content.find(
+      (block) => block.type === "tool_use" && block.name === request.schemaName
+    );
+    if (!toolUse) {
+      throw new Error("Anthropic response did not include the expected tool call");
+    }
+
+    return {
+      output: JSON.stringify(toolUse.input),
+      inputTokens: message.usage?.input_tokens,
+      outputTokens: message.usage?.output_tokens,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Judge registry tests
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createJudge, getAvailableJudges } from "./index.js";
+
+describe("createJudge", () => {
+  it("does not offer the test-only mock judge", () => {
+    assert.deepEqual(getAvailableJudges(), ["openai", "openai-compatible", "anthropic"]);
+    assert.throws(() => createJudge({ backend: "mock" }), /Unknown judge: mock\. Available judges: openai, openai-compatible, anthropic/);
+  });
+
+  it("rejects an openai-compatible judge without a base URL", () => {
+    assert.throws(
+      () => createJudge({ backend: "openai-compatible", model: "llama" }),
+      /needs a base URL/
+    );
+  });
+});
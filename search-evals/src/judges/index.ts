@@ -0,0 +1,80 @@
+/**
+ * Judge Registry - Resolves judge backends to implementations
+ */
+
+import type { Judge } from "../types.js";
+import { OpenAIJudge } from "./openai.js";
+import { AnthropicJudge } from "./anthropic.js";
+
+export interface JudgeOptions {
+  /** Backend name (e.g., "openai", "anthropic") */
+  backend: string;
+  model?: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+const factories: Record<string, (options: JudgeOptions) => Judge> = {
+  openai: (options) =>
+    new OpenAIJudge({
+      model: options.model ?? "gpt-4o",
+      baseURL: options.baseURL,
+      apiKey: options.apiKey,
+    }),
+  "openai-compatible": (options) => {
+    if (!options.baseURL) {
+      throw new Error("The openai-compatible judge needs a base URL (--judge-base-url or EVAL_BASE_URL)");
+    }
+    if (!options.model) {
+      throw new Error("The openai-compatible judge needs a model (--judge-model or EVAL_MODEL)");
+    }
+    return new OpenAIJudge({
+      name: "openai-compatible",
+      model: options.model,
+      baseURL: options.baseURL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey ?? "not-needed",
+    });
+  },
+  anthropic: (options) =>
+    new AnthropicJudge({
+      model: options.model ?? "claude-sonnet-4-5",
+      baseURL: options.baseURL,
+      apiKey: options.apiKey,
+    }),
+  // The scripted MockJudge (./mock.ts) is for tests only and deliberately not
+  // registered: its placeholder scores would pass for real judgements
+};
+
+/**
+ * Create a judge for a backend
+ * @throws Error if the backend is unknown or its configuration is incomplete
+ */
+export function createJudge(options: JudgeOptions): Judge {
+  const factory = factories[options.backend];
+  if (!factory) {
+    const available = Object.keys(factories).join(", ");
+    throw new Error(`Unknown judge: ${options.backend}. Available judges: ${available}`);
+  }
+  return factory(options);
+}
+
+/**
+ * Judge options from EVAL_JUDGE, EVAL_MODEL, EVAL_BASE_URL and EVAL_API_KEY,
+ * overridden by any explicitly given values
+ */
+export function resolveJudgeOptions(overrides: Partial<JudgeOptions> = {}): JudgeOptions {
+  return {
+    backend: overrides.backend ?? (process.env.EVAL_JUDGE || "openai"),
+    model: overrides.model ?? (process.env.EVAL_MODEL || undefined),
+    baseURL: overrides.baseURL ?? (process.env.EVAL_BASE_URL || undefined),
+    apiKey: overrides.apiKey ?? (process.env.EVAL_API_KEY || undefined),
+  };
+}
+
+/**
+ * Get all available judge backend names
+ */
+export function getAvailableJudges(): string[] {
+  return Object.keys(factories);
+}
@@ -0,0 +1,82 @@
+/**
+ * Mock Judge Implementation
+ *
+ * Returns scripted responses without calling any API. For tests only: it is
+ * not available from the CLI, so its scores never end up in an evals file.
+ */
+
+import type { Judge, JudgeRequest, JudgeResponse } from "../types.js";
+
+/**
+ * A scripted response: fixed output text, a function of the request, or an
+ * Error to throw
+ */
+export type MockJudgeStep = string | Error | ((request: JudgeRequest) => string);
+
+export class MockJudge implements Judge {
+  readonly name = "mock";
+  readonly model: string;
+  /** Every request received, in order */
+  readonly requests: JudgeRequest[] = [];
+  private readonly steps: MockJudgeStep[];
+
+  /**
+   * @param script - Responses served in order; the last one repeats once the
+   *   script runs out. Defaults to scoring every result 0.
+   */
+  constructor(script: MockJudgeStep | MockJudgeStep[] = scoreAll(0), model = "scripted") {
+    this.steps = Array.isArray(script) ? script : [script];
+    this.model = model;
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const step = this.steps[Math.min(this.requests.length, this.steps.length - 1)];
+    this.requests.push(request);
+
+    if (step instanceof Error) throw step;
+    const output = typeof step === "function" ? step(request) : step;
+    return { output, inputTokens: 0, outputTokens: 0 };
+  }
+}
+
+/**
+ * A step that gives every requested result key the same score. When the
+ * request asks for per-fact credit, every fact counts as found for scores
+ * of 5 and up.
+ */
+export function scoreAll(score: number, reasoning = "Scored by mock judge."): MockJudgeStep {
+  return (request) => {
+    const { keys, facts } = requestedItems(request);
+    return JSON.stringify({
+      evaluations: keys.map((key) => ({
+        key,
+        score,
+        reasoning,
+        ...(facts ? { facts: facts.map((fact) => ({ fact, found: score >= 5 })) } : {}),
+      })),
+    });
+  };
+}
+
+/**
+ * Read the result keys and fact names a request asks about from its schema
+ */
+function requestedItems(request: JudgeRequest): { keys: string[]; facts?: string[] } {
+  const schema = request.schema as {
+    properties?: {
+      evaluations?: {
+        items?: {
+          properties?: {
+            key?: { enum?: string[] };
+            facts?: { items?: { properties?: { fact?: { enum?: string[] } } } };
+          };
+        };
+      };
+    };
+  };
+  const properties = schema.properties?.evaluations?.items?.properties;
+  return {
+    keys: properties?.key?.enum ?? [],
+    facts: properties?.facts?.items?.properties?.fact?.enum,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * OpenAI Judge Implementation
+ *
+ * Also serves any OpenAI-compatible endpoint (llama.cpp server, Ollama,
+ * vLLM, ...) when given a base URL.
+ */
+
+import OpenAI from "openai";
+import type { Judge, JudgeRequest, JudgeResponse } from "../types.js";
+
+export interface OpenAIJudgeOptions {
+  model: string;
+  /** Base URL of an OpenAI-compatible API; defaults to api.openai.com */
+  baseURL?: string;
+  /** API key; defaults to OPENAI_API_KEY */
+  apiKey?: string;
+  /** Name reported in eval records */
+  name?: string;
+}
+
+export class OpenAIJudge implements Judge {
+  readonly name: string;
+  readonly model: string;
+  private readonly client: OpenAI;
+
+  constructor(options: OpenAIJudgeOptions) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is not set");
+    }
+
+    this.name = options.name ?? "openai";
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: "user", content: request.prompt }],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: request.schemaName,
+          strict: true,
+          schema: request.schema,
+        },
+      },
+    });
+
+    return {
+      output: response.choices[0]?.message?.content || "",
+      inputTokens: response.usage?.prompt_tokens,
+      outputTokens: response.usage?.completion_tokens,
+    };
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Mock Search Server
+ *
+ * A local HTTP search service for the `mock` gateway, so the runner can be
+ * exercised (and tested) without API keys. Answers POST /search with
+ * deterministic results for the query, and can simulate latency, server
+ * errors, 429s with Retry-After and malformed payloads, either on every
+ * request or only on the first few identical requests.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { parseArgs } from "node:util";
+import { parseNonNegativeInt } from "./utils/args.js";
+
+/**
+ * How the server answers a request
+ */
+export type MockScenario = "ok" | "error" | "rate_limited" | "malformed";
+
+export const mockScenarios: readonly MockScenario[] = ["ok", "error", "rate_limited", "malformed"];
+
+export interface MockSearchServerOptions {
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+  host?: string;
+  /** Delay before every response, unless the request asks for another */
+  latencyMs?: number;
+  /** Retry-After sent with 429 responses */
+  retryAfterSeconds?: number;
+}
+
+const defaultMockSearchServerOptions = {
+  port: 8787,
+  host: "127.0.0.1",
+  latencyMs: 0,
+  retryAfterSeconds: 1,
+};
+
+/**
+ * Body of a POST /search request
+ */
+export interface MockSearchRequest {
+  query: string;
+  max_results?: number;
+  scenario?: MockScenario;
+  /** Apply the scenario only to the first N identical requests */
+  fail_first?: number;
+  latency_ms?: number;
+  /** Client session; fail_first counts start afresh in each one */
+  session?: string;
+}
+
+/**
+ * A running mock server
+ */
+export interface MockSearchServer {
+  /** Base URL, e.g. http://127.0.0.1:8787 */
+  url: string;
+  /** Every search request received, in order */
+  requests: MockSearchRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Deterministic results for a query, newest first
+ */
+function mockResults(query: string, count: number, now: Date): Record<string, unknown>[] {
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "query";
+  return Array.from({ length: count }, (_, index) => ({
+    url: `https://example.com/${slug}/${index + 1}`,
+    title: `Result ${index + 1} for "${query}"`,
+    snippet: `Mock search result ${index + 1} for the query "${query}".`,
+    published_date: new Date(now.getTime() - index * 60 * 60 * 1000).toISOString(),
+  }));
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    request.on("error", reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { "content-type": "application/json", ...headers });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Start a mock search server
+ */
+export async function startMockSearchServer(
+  options: MockSearchServerOptions = {}
+): Promise<MockSearchServer> {
+  const host = options.host ?? defaultMockSearchServerOptions.host;
+  const latencyMs = options.latencyMs ?? defaultMockSearchServerOptions.latencyMs;
+  const retryAfterSeconds = options.retryAfterSeconds ?? defaultMockSearchServerOptions.retryAfterSeconds;
+
+  const requests: MockSearchRequest[] = [];
+  const seen = new Map<string, number>();
+
+  const server = createServer(async (request, response) => {
+    if (request.method !== "POST" || request.url !== "/search") {
+      sendJson(response, 404, { error: `Not found: ${request.method} ${request.url}` });
+      return;
+    }
+
+    let body: MockSearchRequest;
+    try {
+      body = JSON.parse(await readBody(request)) as MockSearchRequest;
+    } catch {
+      sendJson(response, 400, { error: "Request body is not valid JSON" });
+      return;
+    }
+    if (typeof body.query !== "string" || body.query.trim().length === 0) {
+      sendJson(response, 400, { error: 'Request has no "query"' });
+      return;
+    }
+    if (body.scenario !== undefined && !mockScenarios.includes(body.scenario)) {
+      sendJson(response, 400, { error: `Unknown scenario: ${body.scenario}` });
+      return;
+    }
+
+    requests.push(body);
+    // Count identical requests only, so configs sharing a query don't use
+    // up each other's failures and the outcome doesn't depend on call order
+    const key = JSON.stringify([
+      body.session,
+      body.query,
+      body.scenario,
+      body.fail_first,
+      body.max_results,
+      body.latency_ms,
+    ]);
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+
+    const delayMs = body.latency_ms ?? latencyMs;
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    const failing = body.fail_first === undefined || count <= body.fail_first;
+    const scenario = failing ? (body.scenario ?? "ok") : "ok";
+
+    switch (scenario) {
+      case "error":
+        sendJson(response, 500, { error: "Mock server error" });
+        return;
+      case "rate_limited":
+        sendJson(response, 429, { error: "Too many requests" }, { "retry-after": String(retryAfterSeconds) });
+        return;
+      case "malformed":
+        response.writeHead(200, { "content-type": "application/json" });
+        response.end('{"results": [{"url": "https://example.com/trunc');
+        return;
+      case "ok":
+        sendJson(response, 200, {
+          request_id: `mock-${requests.length}`,
+          results: mockResults(body.query, body.max_results ?? 5, new Date()),
+        });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? defaultMockSearchServerOptions.port, host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve, reject) => {
+        // Drop idle keep-alive connections so close() doesn't wait on them
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+/**
+ * Main function for standalone execution
+ */
+async function main(): Promise<void> {
+  const { values: args } = parseArgs({
+    options: {
+      port: { type: "string" },
+      host: { type: "string" },
+      latency: { type: "string" },
+    },
+  });
+
+  const server = await startMockSearchServer({
+    port: parseNonNegativeInt(args.port, "port"),
+    host: args.host,
+    latencyMs: parseNonNegativeInt(args.latency, "latency"),
+  });
+  console.log(`Mock search server listening on ${server.url}`);
+  console.log(`Run with MOCK_SEARCH_URL=${server.url} to point the mock gateway at it.`);
+}
+
+// Only run main() when executed directly, not when imported
+const isMainModule = process.argv[1]?.endsWith("mock-server.js");
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Error starting mock server:", error);
+    process.exit(1);
+  });
+}
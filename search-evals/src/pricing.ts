@@ -0,0 +1,128 @@
+/**
+ * Pricing Table
+ *
+ * Estimated prices per gateway (by parameter tier) and per judge model, used
+ * to cost each search result and judge call. Prices are list prices in USD
+ * at the table's version date; bump `version` whenever a price changes so
+ * runs can be compared on the same basis.
+ */
+
+import type { QueryResult, SearchResponse, TokenUsage } from "./types.js";
+
+/**
+ * A price that applies when all `when` parameters match. Costs add up:
+ * a flat per-request fee plus per-token charges.
+ */
+export interface PriceRule {
+  /** Parameter values the rule applies to; omitted means any */
+  when?: Record<string, unknown>;
+  perRequestUsd?: number;
+  inputPerMillionUsd?: number;
+  outputPerMillionUsd?: number;
+  note?: string;
+}
+
+export interface PricingTable {
+  version: string;
+  /** Gateway name → rules, first match wins */
+  gateways: Record<string, PriceRule[]>;
+  /** Judge model (or model prefix) → token prices */
+  judges: Record<string, PriceRule>;
+}
+
+export const pricing: PricingTable = {
+  version: "2026-02-01",
+  gateways: {
+    tavily: [
+      { when: { searchDepth: "advanced" }, perRequestUsd: 0.016, note: "2 credits at $0.008" },
+      { perRequestUsd: 0.008, note: "1 credit at $0.008" },
+    ],
+    parallel: [{ perRequestUsd: 0.005, note: "Search API, $5 per 1000 requests" }],
+    "gemini-search": [
+      {
+        when: { model: "gemini-3-pro-preview" },
+        perRequestUsd: 0.014,
+        inputPerMillionUsd: 2.0,
+        outputPerMillionUsd: 12.0,
+        note: "Grounding at $14 per 1000 searches plus tokens",
+      },
+      {
+        perRequestUsd: 0.014,
+        inputPerMillionUsd: 0.5,
+        outputPerMillionUsd: 3.0,
+        note: "Flash; grounding at $14 per 1000 searches plus tokens",
+      },
+    ],
+    you: [{ perRequestUsd: 0.005, note: "Search API, $5 per 1000 requests" }],
+    perplexity: [{ perRequestUsd: 0.005, note: "Search API, $5 per 1000 requests" }],
+    searxng: [{ perRequestUsd: 0, note: "Self-hosted, no per-query cost" }],
+  },
+  judges: {
+    "gpt-4o": { inputPerMillionUsd: 2.5, outputPerMillionUsd: 10.0 },
+    "gpt-4o-mini": { inputPerMillionUsd: 0.15, outputPerMillionUsd: 0.6 },
+    "gpt-4.1": { inputPerMillionUsd: 2.0, outputPerMillionUsd: 8.0 },
+    "gpt-4.1-mini": { inputPerMillionUsd: 0.4, outputPerMillionUsd: 1.6 },
+    "claude-sonnet-4": { inputPerMillionUsd: 3.0, outputPerMillionUsd: 15.0 },
+    "claude-haiku-4": { inputPerMillionUsd: 1.0, outputPerMillionUsd: 5.0 },
+    mock: { inputPerMillionUsd: 0, outputPerMillionUsd: 0 },
+  },
+};
+
+function ruleMatches(rule: PriceRule, parameters: Record<string, unknown>): boolean {
+  return Object.entries(rule.when ?? {}).every(([name, value]) => parameters[name] === value);
+}
+
+function ruleCost(rule: PriceRule, usage: TokenUsage = {}): number {
+  return (
+    (rule.perRequestUsd ?? 0) +
+    ((usage.inputTokens ?? 0) * (rule.inputPerMillionUsd ?? 0)) / 1_000_000 +
+    ((usage.outputTokens ?? 0) * (rule.outputPerMillionUsd ?? 0)) / 1_000_000
+  );
+}
+
+/**
+ * Estimated cost of one search call. Failed calls cost nothing; returns
+ * undefined for gateways without a price.
+ */
+export function estimateSearchCost(
+  gateway: string,
+  parameters: Record<string, unknown>,
+  response: SearchResponse
+): number | undefined {
+  const rule = pricing.gateways[gateway]?.find((candidate) => ruleMatches(candidate, parameters));
+  if (!rule) return undefined;
+  if (response.error) return 0;
+  return ruleCost(rule, response.usage);
+}
+
+/**
+ * Cost of a stored result: the recorded estimate, or one computed now for
+ * results saved before costs were recorded
+ */
+export function resultCostUsd(result: QueryResult): number | undefined {
+  return (
+    result.costUsd ??
+    estimateSearchCost(result.gateway, result.resolvedParameters ?? result.parameters, result.response)
+  );
+}
+
+/**
+ * Estimated cost of a judge call; the longest matching model prefix wins
+ * (so "gpt-4o-mini-2024-07-18" is priced as gpt-4o-mini, not gpt-4o).
+ * Returns undefined for unpriced models.
+ */
+export function estimateJudgeCost(model: string, usage: TokenUsage): number | undefined {
+  const prefix = Object.keys(pricing.judges)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix === undefined) return undefined;
+  return ruleCost(pricing.judges[prefix], usage);
+}
+
+/**
+ * Format a USD amount with enough precision for sub-cent costs
+ */
+export function formatUsd(value: number | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return value >= 1 ? `$${value.toFixed(2)}` : `$${value.toFixed(4)}`;
+}
@@ -0,0 +1,409 @@
+/**
+ * Query Files
+ *
+ * Loads the query files under queries/ and helps maintain temporal query
+ * series: the same question with a new ground truth for each validity
+ * window. `add` appends a window to a series, closing its open window;
+ * `lint` checks each series for overlapping windows, gaps, expired windows
+ * and whether the current time falls in any window.
+ */
+
+import { readFile, writeFile, mkdir, readdir, stat } from "node:fs/promises";
+import { join, dirname, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import type { SearchQuery } from "./types.js";
+import { formatHours } from "./recency.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+const queriesDir = join(projectRoot, "queries");
+const defaultTemporalFile = join(queriesDir, "queries-temporal.json");
+
+/**
+ * A query with the file and position it was loaded from, for messages
+ */
+export interface LoadedQuery {
+  query: SearchQuery;
+  /** Absolute path of the query file */
+  file: string;
+  /** Position within the file, from 0 */
+  index: number;
+  /** File and position for messages, e.g. "queries/queries-temporal.json #2" */
+  source: string;
+}
+
+export type WindowIssueKind = "overlap" | "gap" | "expired" | "no_current_window";
+
+/**
+ * A problem (or note) about the windows of one temporal query series
+ */
+export interface WindowIssue {
+  kind: WindowIssueKind;
+  /** Overlaps are errors; gaps and a missing current window are warnings */
+  severity: "error" | "warning" | "info";
+  query: string;
+  message: string;
+}
+
+export interface AddWindowOptions {
+  query: string;
+  groundTruth: string;
+  validFrom: Date;
+  /** End of the new window; left open (null) when omitted */
+  validUntil?: Date;
+  /** Query file to append to; defaults to the series' file, else queries/queries-temporal.json */
+  file?: string;
+  /** Report the change without writing the file */
+  dryRun?: boolean;
+}
+
+export interface AddWindowResult {
+  file: string;
+  added: SearchQuery;
+  /** The previously open window, now closed at the new window's start */
+  closed?: SearchQuery;
+}
+
+/**
+ * A temporal query's window in milliseconds; open ends are infinite
+ */
+interface Window {
+  entry: LoadedQuery;
+  start: number;
+  end: number;
+}
+
+/**
+ * Find every .json file under a directory, in a stable order
+ */
+async function findQueryFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { recursive: true });
+  return entries
+    .filter((entry) => entry.endsWith(".json"))
+    .sort()
+    .map((entry) => join(dir, entry));
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function displayPath(path: string): string {
+  return path.startsWith(projectRoot) ? relative(projectRoot, path) : path;
+}
+
+/**
+ * Read a query file, which must hold a list of queries
+ */
+async function readQueryFile(path: string): Promise<SearchQuery[]> {
+  const content = JSON.parse(await readFile(path, "utf-8")) as unknown;
+  if (!Array.isArray(content)) {
+    throw new Error(`Query file ${displayPath(path)} must contain a list of queries`);
+  }
+  return content as SearchQuery[];
+}
+
+/**
+ * Load queries from JSON files: every .json file under queries/, or the
+ * given files (directories are searched recursively)
+ */
+export async function loadQueries(queryFiles?: string[]): Promise<LoadedQuery[]> {
+  const paths: string[] = [];
+  for (const path of queryFiles && queryFiles.length > 0 ? queryFiles : [queriesDir]) {
+    if ((await stat(path)).isDirectory()) {
+      paths.push(...(await findQueryFiles(path)));
+    } else {
+      paths.push(path);
+    }
+  }
+
+  const loaded = await Promise.all(
+    paths.map(async (file) =>
+      (await readQueryFile(file)).map((query, index) => ({
+        query,
+        file,
+        index,
+        source: `${displayPath(file)} #${index + 1}`,
+      }))
+    )
+  );
+  return loaded.flat();
+}
+
+/**
+ * Format a time for query files: ISO 8601 without milliseconds
+ */
+function formatTime(time: Date | number): string {
+  return new Date(time).toISOString().replace(".000Z", "Z");
+}
+
+function isTemporalQuery(query: SearchQuery): boolean {
+  return Boolean(query.validFrom || query.validUntil);
+}
+
+/**
+ * The temporal queries of each series (same question text), windows in
+ * start order. Entries with unparseable dates are left to validateQueries.
+ */
+function groupSeries(loaded: LoadedQuery[]): Map<string, Window[]> {
+  const series = new Map<string, Window[]>();
+  for (const entry of loaded) {
+    const { query } = entry;
+    if (!query || typeof query.query !== "string" || !isTemporalQuery(query)) continue;
+
+    const start = query.validFrom ? Date.parse(query.validFrom) : -Infinity;
+    const end = query.validUntil ? Date.parse(query.validUntil) : Infinity;
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+
+    const text = query.query.trim();
+    series.set(text, [...(series.get(text) ?? []), { entry, start, end }]);
+  }
+
+  for (const windows of series.values()) {
+    windows.sort((a, b) => a.start - b.start);
+  }
+  return series;
+}
+
+function describeEnd(window: Window): string {
+  return Number.isFinite(window.end) ? formatTime(window.end) : "open";
+}
+
+/**
+ * Check every temporal query series for overlapping windows, gaps between
+ * windows, expired windows, and whether `now` falls in any window
+ */
+export function lintWindows(loaded: LoadedQuery[], now = new Date()): WindowIssue[] {
+  const issues: WindowIssue[] = [];
+  const time = now.getTime();
+
+  for (const [query, windows] of groupSeries(loaded)) {
+    const issue = (kind: WindowIssueKind, severity: WindowIssue["severity"], message: string): void => {
+      issues.push({ kind, severity, query, message });
+    };
+
+    // Compare each window with the furthest-reaching one before it
+    let previous: Window | undefined;
+    for (const window of windows) {
+      if (previous && window.start < previous.end) {
+        issue(
+          "overlap",
+          "error",
+          `${window.entry.source} (from ${formatTime(window.start)}) overlaps ${previous.entry.source} (until ${describeEnd(previous)})`
+        );
+      } else if (previous && window.start > previous.end) {
+        issue(
+          "gap",
+          "warning",
+          `no window from ${formatTime(previous.end)} to ${formatTime(window.start)} (${formatHours((window.start - previous.end) / 3_600_000)}) between ${previous.entry.source} and ${window.entry.source}`
+        );
+      }
+      if (!previous || window.end > previous.end) previous = window;
+    }
+
+    for (const window of windows) {
+      if (window.end < time) {
+        issue("expired", "info", `${window.entry.source} expired at ${formatTime(window.end)}`);
+      }
+    }
+
+    if (!windows.some((window) => window.start <= time && time <= window.end)) {
+      const next = windows.find((window) => window.start > time);
+      const last = windows.filter((window) => window.end < time).at(-1);
+      issue(
+        "no_current_window",
+        "warning",
+        next
+          ? `no window covers now (${formatTime(time)}); the next starts at ${formatTime(next.start)}`
+          : `no window covers now (${formatTime(time)}); the last ended at ${last ? formatTime(last.end) : "?"}`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Append a new window to a temporal query series. The series' open window
+ * (validUntil null) is closed at the new window's start, and the new entry
+ * inherits the latest window's tags, category, difficulty and locale.
+ * @throws Error if the new window would overlap an existing one
+ */
+export async function addWindow(options: AddWindowOptions): Promise<AddWindowResult> {
+  const text = options.query.trim();
+  const start = options.validFrom.getTime();
+  const end = options.validUntil?.getTime() ?? Infinity;
+  if (end <= start) {
+    throw new Error("validUntil must be after validFrom");
+  }
+
+  // Include a target file outside queries/ so its windows are checked too
+  const queryFiles = [queriesDir];
+  if (options.file && !options.file.startsWith(queriesDir) && (await fileExists(options.file))) {
+    queryFiles.push(options.file);
+  }
+  const windows = groupSeries(await loadQueries(queryFiles)).get(text) ?? [];
+  const latest = windows.at(-1);
+  const file = options.file ?? latest?.entry.file ?? defaultTemporalFile;
+
+  const queries = (await fileExists(file)) ? await readQueryFile(file) : [];
+
+  // Close the series' open window in the target file
+  const openIndex = queries.findIndex(
+    (query) => query.query?.trim() === text && query.validFrom && !query.validUntil
+  );
+  let closed: SearchQuery | undefined;
+  if (openIndex !== -1) {
+    closed = queries[openIndex];
+    if (Date.parse(closed.validFrom!) >= start) {
+      throw new Error(
+        `The open window ${displayPath(file)} #${openIndex + 1} starts at ${closed.validFrom}, not before ${formatTime(start)}`
+      );
+    }
+    closed.validUntil = formatTime(start);
+  }
+
+  const overlapping = windows.find(
+    (window) =>
+      !(window.entry.file === file && window.entry.index === openIndex) &&
+      window.start < end &&
+      start < window.end
+  );
+  if (overlapping) {
+    throw new Error(
+      `The new window overlaps ${overlapping.entry.source} (${formatTime(overlapping.start)} to ${describeEnd(overlapping)})`
+    );
+  }
+
+  const template = latest?.entry.query;
+  const added: SearchQuery = {
+    query: text,
+    groundTruth: options.groundTruth,
+    validFrom: formatTime(start),
+    validUntil: options.validUntil ? formatTime(options.validUntil) : null,
+    tags: template?.tags,
+    category: template?.category,
+    difficulty: template?.difficulty,
+    locale: template?.locale,
+  };
+  queries.push(added);
+
+  if (!options.dryRun) {
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(queries, null, 2)}\n`, "utf-8");
+  }
+
+  return { file, added, closed };
+}
+
+/**
+ * Print lint issues grouped by series
+ */
+function printIssues(issues: WindowIssue[]): void {
+  const marker = { error: "✗", warning: "⚠", info: "·" };
+  const byQuery = new Map<string, WindowIssue[]>();
+  for (const issue of issues) {
+    byQuery.set(issue.query, [...(byQuery.get(issue.query) ?? []), issue]);
+  }
+
+  for (const [query, queryIssues] of byQuery) {
+    console.log("");
+    console.log(`"${query}"`);
+    for (const issue of queryIssues) {
+      console.log(`  ${marker[issue.severity]} ${issue.kind}: ${issue.message}`);
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const warnings = issues.filter((issue) => issue.severity === "warning").length;
+  console.log("");
+  console.log(
+    errors === 0 && warnings === 0 ? "✓ No window problems" : `${errors} errors, ${warnings} warnings`
+  );
+}
+
+/**
+ * Parse a date option; "now" means the current time
+ */
+function parseTime(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  if (value === "now") return new Date();
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`--${name} must be an ISO 8601 date or "now", got "${value}"`);
+  }
+  return new Date(time);
+}
+
+/**
+ * Main function for standalone execution
+ */
+async function main(): Promise<void> {
+  const { values: args, positionals } = parseArgs({
+    options: {
+      query: { type: "string" },
+      "ground-truth": { type: "string" },
+      "valid-from": { type: "string" },
+      "valid-until": { type: "string" },
+      file: { type: "string" },
+      now: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+  const command = positionals[0];
+
+  if (command === "lint") {
+    const issues = lintWindows(await loadQueries(), parseTime(args.now, "now"));
+    printIssues(issues);
+    if (issues.some((issue) => issue.severity === "error")) {
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (command === "add") {
+    if (!args.query || !args["ground-truth"]) {
+      console.error(
+        'Usage: npm run queries:add -- --query <text> --ground-truth <text> [--valid-from <iso>|now] [--valid-until <iso>] [--file <path>] [--dry-run]'
+      );
+      process.exit(1);
+    }
+
+    const result = await addWindow({
+      query: args.query,
+      groundTruth: args["ground-truth"],
+      validFrom: parseTime(args["valid-from"], "valid-from") ?? new Date(),
+      validUntil: parseTime(args["valid-until"], "valid-until"),
+      file: args.file ? resolve(args.file) : undefined,
+      dryRun: args["dry-run"],
+    });
+
+    if (result.closed) {
+      console.log(`Closed the open window from ${result.closed.validFrom} at ${result.closed.validUntil}`);
+    }
+    console.log(`${args["dry-run"] ? "Would add" : "Added"} to ${displayPath(result.file)}:`);
+    console.log(JSON.stringify(result.added, null, 2));
+    return;
+  }
+
+  console.error("Usage: npm run queries:lint | npm run queries:add -- --query <text> --ground-truth <text>");
+  process.exit(1);
+}
+
+// Only run main() when executed directly, not when imported
+const isMainModule = process.argv[1]?.endsWith("queries.js");
+if (isMainModule) {
+  main().catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
+}
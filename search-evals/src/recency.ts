@@ -0,0 +1,138 @@
+/**
+ * Recency Analysis
+ *
+ * For temporal queries, measures how long after the event (`validFrom`) the
+ * query ran and how fresh the returned sources were: whether any source was
+ * published after the event, and how old the newest source was when the
+ * query ran. Uses the published/updated dates gateways report in their
+ * normalized results.
+ */
+
+import type { QueryResult, RecencyAnalysis } from "./types.js";
+import { getNormalizedResponse } from "./gateways/index.js";
+import { median } from "./utils/stats.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Recency aggregated over one config's temporal results
+ */
+export interface RecencySummary {
+  configId: string;
+  gateway: string;
+  /** Temporal results that succeeded */
+  results: number;
+  /** Results with at least one dated source */
+  withDates: number;
+  /** Share of results with at least one source newer than the event */
+  freshShare: number;
+  /** Share of dated sources newer than the event */
+  freshSourceShare?: number;
+  medianHoursSinceEvent?: number;
+  /** Median age of the newest source when the query ran */
+  medianNewestAgeHours?: number;
+}
+
+/**
+ * A parsed published date. Date-only values ("2026-01-24") can't be placed
+ * within their day, so they are compared by day.
+ */
+interface PublishedDate {
+  time: number;
+  dateOnly: boolean;
+}
+
+function parsePublishedDate(value: string | undefined): PublishedDate | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return undefined;
+  return { time, dateOnly: /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) };
+}
+
+/**
+ * Whether a source was published at or after the event; a date-only source
+ * counts when it falls on or after the event's day (UTC)
+ */
+function isFresh(published: PublishedDate, eventTime: number): boolean {
+  if (published.dateOnly) {
+    return published.time >= eventTime - (eventTime % DAY_MS);
+  }
+  return published.time >= eventTime;
+}
+
+/**
+ * Analyze a result's source recency. Returns undefined for non-temporal
+ * queries and failed calls.
+ */
+export function analyzeRecency(result: QueryResult): RecencyAnalysis | undefined {
+  if (!result.validFrom || result.hasError) return undefined;
+
+  const eventTime = Date.parse(result.validFrom);
+  const executedTime = Date.parse(result.executedAt);
+  const { results } = getNormalizedResponse(result);
+  const dates = results
+    .map((item) => parsePublishedDate(item.publishedDate))
+    .filter((date): date is PublishedDate => date !== undefined);
+  const newest = dates.length > 0 ? Math.max(...dates.map((date) => date.time)) : undefined;
+
+  return {
+    hoursSinceEvent: (executedTime - eventTime) / HOUR_MS,
+    sources: results.length,
+    datedSources: dates.length,
+    freshSources: dates.filter((date) => isFresh(date, eventTime)).length,
+    newestPublishedAt: newest === undefined ? undefined : new Date(newest).toISOString(),
+    newestAgeHours: newest === undefined ? undefined : Math.max(0, (executedTime - newest) / HOUR_MS),
+  };
+}
+
+/**
+ * Recency of a stored result: the recorded analysis, or one computed now
+ * for results saved before recency was recorded
+ */
+export function resultRecency(result: QueryResult): RecencyAnalysis | undefined {
+  return result.recency ?? analyzeRecency(result);
+}
+
+/**
+ * Aggregate recency per config, in first-seen order. Configs without
+ * temporal results are left out.
+ */
+export function summarizeRecency(results: QueryResult[]): RecencySummary[] {
+  const byConfig = new Map<string, { gateway: string; analyses: RecencyAnalysis[] }>();
+  for (const result of results) {
+    const recency = resultRecency(result);
+    if (!recency) continue;
+    const entry = byConfig.get(result.configId) ?? { gateway: result.gateway, analyses: [] };
+    entry.analyses.push(recency);
+    byConfig.set(result.configId, entry);
+  }
+
+  return [...byConfig].map(([configId, { gateway, analyses }]) => {
+    const dated = analyses.filter((analysis) => analysis.datedSources > 0);
+    const datedSources = analyses.reduce((sum, analysis) => sum + analysis.datedSources, 0);
+    const freshSources = analyses.reduce((sum, analysis) => sum + analysis.freshSources, 0);
+    return {
+      configId,
+      gateway,
+      results: analyses.length,
+      withDates: dated.length,
+      freshShare: analyses.filter((analysis) => analysis.freshSources > 0).length / analyses.length,
+      freshSourceShare: datedSources > 0 ? freshSources / datedSources : undefined,
+      medianHoursSinceEvent: median(analyses.map((analysis) => analysis.hoursSinceEvent)),
+      medianNewestAgeHours: median(
+        dated
+          .map((analysis) => analysis.newestAgeHours)
+          .filter((hours): hours is number => hours !== undefined)
+      ),
+    };
+  });
+}
+
+/**
+ * Format a duration in hours, switching to days from two days up
+ */
+export function formatHours(value: number | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return value >= 48 ? `${(value / 24).toFixed(1)}d` : `${value.toFixed(1)}h`;
+}
@@ -0,0 +1,838 @@
+/**
+ * Leaderboard Report
+ *
+ * Joins a results file with its eval file and aggregates per config:
+ * judge scores, latency, tokens, estimated cost and error rate, overall and split into
+ * static and temporal queries, with bootstrap confidence intervals, and
+ * per query tag, category and difficulty, lists the structured facts each
+ * config missed, and measures trial-to-trial stability of repeated runs. Compares
+ * every pair of configs on the queries both were judged on (paired bootstrap
+ * and Wilcoxon signed-rank tests, win/tie/loss counts). Prints terminal
+ * tables and writes Markdown and self-contained HTML reports to reports/.
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join, dirname, basename, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import type { EvalRecord, QueryResult, RunResult } from "./types.js";
+import { findLatestResultsFile } from "./evaluator.js";
+import { queryIdFor, resultKeyFor } from "./utils/keys.js";
+import {
+  mean,
+  median,
+  percentile,
+  bootstrapMeanCI,
+  pairedBootstrap,
+  signFlipTest,
+  wilcoxonSignedRank,
+  MIN_PAIRS_FOR_P_VALUE,
+  type BootstrapOptions,
+  type Interval,
+} from "./utils/stats.js";
+import { createRandom } from "./utils/random.js";
+import { parsePositiveInt, parseInteger } from "./utils/args.js";
+import { resultCostUsd, formatUsd } from "./pricing.js";
+import { scoreResult } from "./scorer.js";
+import { summarizeStability, type StabilitySummary } from "./stability.js";
+import { summarizeRecency, formatHours, type RecencySummary } from "./recency.js";
+import {
+  renderTextTable,
+  renderMarkdownTable,
+  renderHtmlTable,
+  escapeHtml,
+  fixed,
+  percent,
+  type Table,
+} from "./utils/table.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+/**
+ * A result joined with its eval record, if it was judged
+ */
+export interface ReportRow {
+  key: string;
+  result: QueryResult;
+  temporal: boolean;
+  eval?: EvalRecord;
+}
+
+/**
+ * Aggregated metrics for one config
+ */
+export interface ConfigSummary {
+  configId: string;
+  gateway: string;
+  results: number;
+  judged: number;
+  errors: number;
+  errorRate: number;
+  meanScore?: number;
+  scoreCI?: Interval;
+  medianScore?: number;
+  /** Share of judged results scoring 10 */
+  perfectShare?: number;
+  p50LatencyMs?: number;
+  p95LatencyMs?: number;
+  meanLatencyMs?: number;
+  latencyCI?: Interval;
+  meanTokens?: number;
+  /** Estimated search cost of the config's results */
+  costUsd?: number;
+  costPerQueryUsd?: number;
+  /** Search cost divided by the number of results scoring at least GOOD_SCORE */
+  costPerGoodAnswerUsd?: number;
+}
+
+/**
+ * Paired comparison of two configs over the queries both were judged on
+ */
+export interface PairwiseComparison {
+  configA: string;
+  configB: string;
+  /** Queries judged for both configs */
+  n: number;
+  /** Mean of (score A - score B) */
+  meanDiff?: number;
+  ci?: Interval;
+  /** p-values are left out below MIN_PAIRS_FOR_P_VALUE queries */
+  permutationP?: number;
+  wilcoxonP?: number;
+  /** Queries where A scored higher, equal, lower than B */
+  wins: number;
+  ties: number;
+  losses: number;
+}
+
+/**
+ * Mean score per config for the queries in one tag, category or difficulty
+ */
+export interface TagBreakdown {
+  /** Tag name, or "category:<name>" / "difficulty:<level>" */
+  group: string;
+  /** Distinct queries in the group */
+  queries: number;
+  /** Config id → mean judge score (undefined when none were judged) */
+  meanScores: Record<string, number | undefined>;
+}
+
+/**
+ * One structured fact (or mustNotContain phrase) of a query, checked for
+ * every config
+ */
+export interface FactOutcome {
+  queryId: string;
+  query: string;
+  /** Fact text, or "not: <phrase>" for a mustNotContain phrase */
+  fact: string;
+  /** Config id → whether the fact was found (or the phrase avoided) */
+  passed: Record<string, boolean>;
+  /** Configs that missed the fact (or stated the phrase) */
+  misses: number;
+}
+
+export interface ReportOptions {
+  /** Eval file to join; defaults to evals/<results filename> */
+  evalsPath?: string;
+  /** Directory for the Markdown and HTML reports; defaults to reports/ */
+  outputDir?: string;
+  /** Seed for bootstrap resampling, so intervals are reproducible (default 1) */
+  seed?: number;
+  /** Bootstrap resamples (default 2000) */
+  iterations?: number;
+}
+
+interface ReportSection {
+  title: string;
+  summaries: ConfigSummary[];
+}
+
+interface Report {
+  sections: ReportSection[];
+  comparisons: PairwiseComparison[];
+  tagBreakdown: TagBreakdown[];
+  /** Structured facts missed by at least one config, most missed first */
+  missedFacts: FactOutcome[];
+  /** Trial-to-trial variation per config, for repeated runs */
+  stability: StabilitySummary[];
+  /** Source freshness per config, for temporal queries */
+  recency: RecencySummary[];
+  /** Config order of the overall leaderboard */
+  configIds: string[];
+}
+
+/** Two-sided p-value below which a pairwise difference is marked significant */
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Judge score from which an answer counts as good for cost per good answer */
+const GOOD_SCORE = 7;
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function definedValues(values: (number | undefined)[]): number[] {
+  return values.filter((value): value is number => value !== undefined);
+}
+
+/**
+ * Whether a result belongs to a temporal (time-windowed) query
+ */
+export function isTemporal(result: Pick<QueryResult, "validFrom" | "validUntil">): boolean {
+  return Boolean(result.validFrom || result.validUntil);
+}
+
+/**
+ * Default eval file for a results file: evals/<results filename>
+ */
+export function evalsPathFor(resultsPath: string): string {
+  return join(projectRoot, "evals", basename(resultsPath));
+}
+
+/**
+ * Read an eval file, returning an empty list if it doesn't exist
+ */
+async function loadEvals(evalsPath: string): Promise<EvalRecord[]> {
+  try {
+    return JSON.parse(await readFile(evalsPath, "utf-8")) as EvalRecord[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      console.warn(`Warning: No eval file at ${evalsPath}; reporting without scores`);
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Join results with their eval records. Evals written before result keys
+ * were recorded are matched on query, ground truth and config instead.
+ */
+export function joinEvals(results: QueryResult[], evals: EvalRecord[]): ReportRow[] {
+  const legacyKey = (r: { query: string; groundTruth?: string; configId: string }): string =>
+    `${r.query}\u0000${r.groundTruth ?? ""}\u0000${r.configId}`;
+
+  const byKey = new Map<string, EvalRecord>();
+  const byLegacyKey = new Map<string, EvalRecord>();
+  for (const record of evals) {
+    if (record.key) {
+      byKey.set(record.key, record);
+    } else {
+      byLegacyKey.set(legacyKey(record), record);
+    }
+  }
+
+  return results.map((result) => {
+    const key = resultKeyFor(result);
+    return {
+      key,
+      result,
+      temporal: isTemporal(result),
+      eval: byKey.get(key) ?? byLegacyKey.get(legacyKey(result)),
+    };
+  });
+}
+
+/**
+ * Load a results file and join it with its evals
+ */
+export async function loadReportRows(
+  resultsPath: string,
+  evalsPath = evalsPathFor(resultsPath)
+): Promise<ReportRow[]> {
+  const runResult = JSON.parse(await readFile(resultsPath, "utf-8")) as RunResult;
+  const evals = await loadEvals(evalsPath);
+  return joinEvals(runResult.results, evals);
+}
+
+/**
+ * Aggregate rows per config, best mean score first
+ */
+export function summarizeByConfig(
+  rows: ReportRow[],
+  bootstrap: BootstrapOptions = {}
+): ConfigSummary[] {
+  const byConfig = new Map<string, ReportRow[]>();
+  for (const row of rows) {
+    const existing = byConfig.get(row.result.configId) || [];
+    existing.push(row);
+    byConfig.set(row.result.configId, existing);
+  }
+
+  const summaries: ConfigSummary[] = [];
+  for (const [configId, configRows] of byConfig) {
+    const succeeded = configRows.filter((row) => !row.result.hasError);
+    const scores = configRows
+      .map((row) => row.eval?.score)
+      .filter((score): score is number => score !== undefined);
+    const latencies = succeeded.map((row) => row.result.response.latencyMs);
+    const errors = configRows.length - succeeded.length;
+    const costs = definedValues(configRows.map((row) => resultCostUsd(row.result)));
+    const costUsd = costs.length > 0 ? sum(costs) : undefined;
+    const goodAnswers = scores.filter((score) => score >= GOOD_SCORE).length;
+
+    summaries.push({
+      configId,
+      gateway: configRows[0].result.gateway,
+      results: configRows.length,
+      judged: scores.length,
+      errors,
+      errorRate: errors / configRows.length,
+      meanScore: mean(scores),
+      scoreCI: bootstrapMeanCI(scores, bootstrap),
+      medianScore: median(scores),
+      perfectShare: scores.length > 0 ? scores.filter((s) => s === 10).length / scores.length : undefined,
+      p50LatencyMs: percentile(latencies, 50),
+      p95LatencyMs: percentile(latencies, 95),
+      meanLatencyMs: mean(latencies),
+      latencyCI: bootstrapMeanCI(latencies, bootstrap),
+      meanTokens: mean(succeeded.map((row) => row.result.response.tokenCount)),
+      costUsd,
+      costPerQueryUsd: costUsd === undefined ? undefined : costUsd / configRows.length,
+      costPerGoodAnswerUsd:
+        costUsd === undefined || goodAnswers === 0 ? undefined : costUsd / goodAnswers,
+    });
+  }
+
+  return summaries.sort(
+    (a, b) =>
+      (b.meanScore ?? -1) - (a.meanScore ?? -1) ||
+      (a.p50LatencyMs ?? Infinity) - (b.p50LatencyMs ?? Infinity)
+  );
+}
+
+/**
+ * Compare every pair of configs on the queries both were judged on, in the
+ * given config order
+ */
+export function compareConfigs(
+  rows: ReportRow[],
+  configIds: string[],
+  bootstrap: BootstrapOptions = {}
+): PairwiseComparison[] {
+  // Scores per config, by query id (repeated trials of a pair are averaged)
+  const trialScores = new Map<string, Map<string, number[]>>();
+  for (const row of rows) {
+    if (!row.eval) continue;
+    const byQuery = trialScores.get(row.result.configId) ?? new Map<string, number[]>();
+    const queryId = row.result.queryId ?? queryIdFor(row.result);
+    byQuery.set(queryId, [...(byQuery.get(queryId) ?? []), row.eval.score]);
+    trialScores.set(row.result.configId, byQuery);
+  }
+  const scores = new Map(
+    [...trialScores].map(([configId, byQuery]) => [
+      configId,
+      new Map([...byQuery].map(([queryId, values]) => [queryId, mean(values)!])),
+    ])
+  );
+
+  const comparisons: PairwiseComparison[] = [];
+  for (let i = 0; i < configIds.length; i++) {
+    for (let j = i + 1; j < configIds.length; j++) {
+      const a = scores.get(configIds[i]) ?? new Map<string, number>();
+      const b = scores.get(configIds[j]) ?? new Map<string, number>();
+      const diffs = [...a]
+        .filter(([queryId]) => b.has(queryId))
+        .map(([queryId, score]) => score - b.get(queryId)!);
+
+      const bootstrapResult = pairedBootstrap(diffs, bootstrap);
+      comparisons.push({
+        configA: configIds[i],
+        configB: configIds[j],
+        n: diffs.length,
+        meanDiff: bootstrapResult?.meanDiff,
+        ci: bootstrapResult?.ci,
+        permutationP: signFlipTest(diffs, bootstrap).pValue,
+        wilcoxonP: diffs.length >= MIN_PAIRS_FOR_P_VALUE ? wilcoxonSignedRank(diffs).pValue : undefined,
+        wins: diffs.filter((d) => d > 0).length,
+        ties: diffs.filter((d) => d === 0).length,
+        losses: diffs.filter((d) => d < 0).length,
+      });
+    }
+  }
+
+  return comparisons;
+}
+
+/**
+ * Groups a result counts towards: its tags, category and difficulty
+ */
+function groupsFor(result: QueryResult): string[] {
+  return [
+    ...(result.tags ?? []),
+    ...(result.category ? [`category:${result.category}`] : []),
+    ...(result.difficulty ? [`difficulty:${result.difficulty}`] : []),
+  ];
+}
+
+/**
+ * Mean score per config within each tag, category and difficulty, sorted
+ * by group name. Empty when no result carries any of them.
+ */
+export function breakdownByTag(rows: ReportRow[], configIds: string[]): TagBreakdown[] {
+  const rowsByGroup = new Map<string, ReportRow[]>();
+  for (const row of rows) {
+    for (const group of groupsFor(row.result)) {
+      rowsByGroup.set(group, [...(rowsByGroup.get(group) ?? []), row]);
+    }
+  }
+
+  return [...rowsByGroup.keys()].sort().map((group) => {
+    const groupRows = rowsByGroup.get(group)!;
+    const meanScores: Record<string, number | undefined> = {};
+    for (const configId of configIds) {
+      const scores = definedValues(
+        groupRows.filter((row) => row.result.configId === configId).map((row) => row.eval?.score)
+      );
+      meanScores[configId] = scores.length > 0 ? mean(scores) : undefined;
+    }
+    return {
+      group,
+      queries: new Set(groupRows.map((row) => row.result.queryId ?? queryIdFor(row.result))).size,
+      meanScores,
+    };
+  });
+}
+
+function interval(value: Interval | undefined, digits: number): string | undefined {
+  return value === undefined ? undefined : `[${value.lower.toFixed(digits)}, ${value.upper.toFixed(digits)}]`;
+}
+
+function pValue(value: number | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const text = value < 0.001 ? "<0.001" : value.toFixed(3);
+  return value < SIGNIFICANCE_LEVEL ? `${text} *` : text;
+}
+
+/**
+ * Leaderboard table for a list of config summaries
+ */
+function leaderboardTable(summaries: ConfigSummary[]): Table {
+  return {
+    headers: [
+      "#",
+      "Config",
+      "Gateway",
+      "Judged",
+      "Mean",
+      "95% CI",
+      "Median",
+      "Perfect",
+      "p50 ms",
+      "p95 ms",
+      "Mean ms",
+      "95% CI ms",
+      "Tokens",
+      "Cost",
+      "$/query",
+      `$/score≥${GOOD_SCORE}`,
+      "Errors",
+    ],
+    rows: summaries.map((s, index) => [
+      index + 1,
+      s.configId,
+      s.gateway,
+      `${s.judged}/${s.results}`,
+      fixed(s.meanScore, 2),
+      interval(s.scoreCI, 2),
+      fixed(s.medianScore, 1),
+      percent(s.perfectShare),
+      fixed(s.p50LatencyMs, 0),
+      fixed(s.p95LatencyMs, 0),
+      fixed(s.meanLatencyMs, 0),
+      interval(s.latencyCI, 0),
+      fixed(s.meanTokens, 0),
+      formatUsd(s.costUsd),
+      formatUsd(s.costPerQueryUsd),
+      formatUsd(s.costPerGoodAnswerUsd),
+      percent(s.errorRate),
+    ]),
+  };
+}
+
+/**
+ * Pairwise comparison table: mean score difference (A - B) with its
+ * paired bootstrap interval and p-values
+ */
+function comparisonTable(comparisons: PairwiseComparison[]): Table {
+  return {
+    headers: ["Config A", "Config B", "n", "Δ mean", "95% CI", "Permutation p", "Wilcoxon p", "W-T-L"],
+    rows: comparisons.map((c) => [
+      c.configA,
+      c.configB,
+      c.n,
+      fixed(c.meanDiff, 2),
+      interval(c.ci, 2),
+      pValue(c.permutationP),
+      pValue(c.wilcoxonP),
+      `${c.wins}-${c.ties}-${c.losses}`,
+    ]),
+  };
+}
+
+/**
+ * Win/tie/loss matrix: each cell is the row config's record against the
+ * column config
+ */
+function winMatrixTable(comparisons: PairwiseComparison[], configIds: string[]): Table {
+  const cell = (a: string, b: string): string | undefined => {
+    const forward = comparisons.find((c) => c.configA === a && c.configB === b);
+    if (forward) return `${forward.wins}-${forward.ties}-${forward.losses}`;
+    const reverse = comparisons.find((c) => c.configA === b && c.configB === a);
+    if (reverse) return `${reverse.losses}-${reverse.ties}-${reverse.wins}`;
+    return undefined;
+  };
+
+  return {
+    headers: ["Config", ...configIds],
+    rows: configIds.map((a) => [a, ...configIds.map((b) => (a === b ? undefined : cell(a, b)))]),
+  };
+}
+
+/**
+ * Tag breakdown table: one row per group, one mean score column per config
+ */
+function tagTable(breakdown: TagBreakdown[], configIds: string[]): Table {
+  return {
+    headers: ["Group", "Queries", ...configIds],
+    rows: breakdown.map((b) => [b.group, b.queries, ...configIds.map((id) => fixed(b.meanScores[id], 2))]),
+  };
+}
+
+/**
+ * Per-config outcome of each structured fact and mustNotContain phrase.
+ * Facts use the judge's per-fact credit when the eval has it and the
+ * rule-based check otherwise; phrases always use the rule-based check.
+ */
+export function checkFacts(rows: ReportRow[]): FactOutcome[] {
+  const outcomes = new Map<string, FactOutcome>();
+  const record = (row: ReportRow, fact: string, passed: boolean): void => {
+    const queryId = row.result.queryId ?? queryIdFor(row.result);
+    const id = `${queryId}\u0000${fact}`;
+    const outcome = outcomes.get(id) ?? { queryId, query: row.result.query, fact, passed: {}, misses: 0 };
+    outcome.passed[row.result.configId] = passed;
+    if (!passed) outcome.misses++;
+    outcomes.set(id, outcome);
+  };
+
+  for (const row of rows) {
+    if (!row.result.facts && !row.result.mustNotContain) continue;
+    const score = scoreResult(row.result);
+    if (!score) continue;
+
+    const credit = row.eval?.facts ?? (row.result.facts ? score.facts : []);
+    for (const { fact, found } of credit) record(row, fact, found);
+    for (const phrase of row.result.mustNotContain ?? []) {
+      record(row, `not: ${phrase}`, !score.contradictions?.includes(phrase));
+    }
+  }
+  return [...outcomes.values()];
+}
+
+/**
+ * Missed facts table: one row per fact some config missed, ✓/✗ per config
+ */
+function missedFactsTable(outcomes: FactOutcome[], configIds: string[]): Table {
+  return {
+    headers: ["Query", "Fact", "Missed", ...configIds],
+    rows: outcomes.map((o) => [
+      o.query.length > 40 ? `${o.query.slice(0, 40)}…` : o.query,
+      o.fact,
+      o.misses,
+      ...configIds.map((id) => (o.passed[id] === undefined ? undefined : o.passed[id] ? "✓" : "✗")),
+    ]),
+  };
+}
+
+/**
+ * Stability table: spread of scores and latencies between trials of the
+ * same pair, and URL overlap between trials
+ */
+function stabilityTable(summaries: StabilitySummary[]): Table {
+  return {
+    headers: ["Config", "Gateway", "Pairs", "Trials", "Score SD", "Latency SD ms", "p50 ms", "p90 ms", "p99 ms", "URL Jaccard", "Errors"],
+    rows: summaries.map((s) => [
+      s.configId,
+      s.gateway,
+      s.pairs,
+      s.trials,
+      fixed(s.scoreSD, 2),
+      fixed(s.latencySD, 0),
+      fixed(s.p50LatencyMs, 0),
+      fixed(s.p90LatencyMs, 0),
+      fixed(s.p99LatencyMs, 0),
+      fixed(s.urlJaccard, 2),
+      percent(s.errorRate),
+    ]),
+  };
+}
+
+/**
+ * Recency table: how often each config returned a source newer than the
+ * event and how old its newest source was
+ */
+function recencyTable(summaries: RecencySummary[]): Table {
+  return {
+    headers: ["Config", "Gateway", "Results", "Dated", "With fresh", "Fresh sources", "Newest age", "Since event"],
+    rows: summaries.map((s) => [
+      s.configId,
+      s.gateway,
+      s.results,
+      s.withDates,
+      percent(s.freshShare),
+      percent(s.freshSourceShare),
+      formatHours(s.medianNewestAgeHours),
+      formatHours(s.medianHoursSinceEvent),
+    ]),
+  };
+}
+
+/**
+ * Sort per-config summaries into leaderboard order
+ */
+function inConfigOrder<T extends { configId: string }>(summaries: T[], configIds: string[]): T[] {
+  return [...summaries].sort((a, b) => configIds.indexOf(a.configId) - configIds.indexOf(b.configId));
+}
+
+/**
+ * Overall, static and temporal sections (empty splits are left out) and
+ * the pairwise comparisons and tag breakdown over all queries
+ */
+function buildReport(rows: ReportRow[], bootstrap: BootstrapOptions): Report {
+  const overall = summarizeByConfig(rows, bootstrap);
+  const sections: ReportSection[] = [{ title: "All queries", summaries: overall }];
+
+  const staticRows = rows.filter((row) => !row.temporal);
+  const temporalRows = rows.filter((row) => row.temporal);
+  if (staticRows.length > 0 && temporalRows.length > 0) {
+    sections.push({ title: "Static queries", summaries: summarizeByConfig(staticRows, bootstrap) });
+    sections.push({ title: "Temporal queries", summaries: summarizeByConfig(temporalRows, bootstrap) });
+  }
+
+  const configIds = overall.map((summary) => summary.configId);
+  const results = rows.map((row) => row.result);
+  const scoreByResult = new Map(rows.map((row) => [row.result, row.eval?.score]));
+  return {
+    sections,
+    comparisons: compareConfigs(rows, configIds, bootstrap),
+    tagBreakdown: breakdownByTag(rows, configIds),
+    missedFacts: checkFacts(rows)
+      .filter((outcome) => outcome.misses > 0)
+      .sort((a, b) => b.misses - a.misses),
+    stability: inConfigOrder(summarizeStability(results, (result) => scoreByResult.get(result)), configIds),
+    recency: inConfigOrder(summarizeRecency(results), configIds),
+    configIds,
+  };
+}
+
+const COMPARISONS_TITLE = "Pairwise comparisons";
+const COMPARISONS_NOTE = `Paired over queries judged for both configs; Δ mean is A − B. * marks p < ${SIGNIFICANCE_LEVEL}; no p-values below ${MIN_PAIRS_FOR_P_VALUE} queries.`;
+const WIN_MATRIX_TITLE = "Win/tie/loss matrix";
+const WIN_MATRIX_NOTE = "Row config's wins-ties-losses against the column config, per query.";
+const STABILITY_TITLE = "Stability (repeated trials)";
+const STABILITY_NOTE =
+  "Score SD and Latency SD: standard deviation across trials of the same query, averaged over queries. Percentiles cover every successful trial. URL Jaccard: overlap of the returned URL sets between trials (1 = identical).";
+const RECENCY_TITLE = "Recency (temporal queries)";
+const RECENCY_NOTE =
+  "With fresh: results with at least one source published after the event (validFrom). Fresh sources: share of dated sources. Newest age: median age of the newest source when the query ran. Since event: median time from the event to the run.";
+const FACTS_TITLE = "Missed facts";
+const FACTS_NOTE =
+  "Structured facts at least one config missed (✗), by the judge's per-fact credit or else the rule-based check. \"not:\" rows are mustNotContain phrases; ✗ means the config's results stated it.";
+const TAGS_TITLE = "Scores by tag";
+const TAGS_NOTE = "Mean judge score per config for queries with each tag, category and difficulty.";
+
+/**
+ * One-line overview: result counts and the estimated run cost
+ */
+function overview(rows: ReportRow[]): string {
+  const parts = [`${rows.length} results, ${rows.filter((row) => row.eval).length} judged.`];
+
+  const searchCosts = definedValues(rows.map((row) => resultCostUsd(row.result)));
+  const judgeCosts = definedValues(rows.map((row) => row.eval?.judgeCostUsd));
+  if (searchCosts.length > 0 || judgeCosts.length > 0) {
+    const searchCost = sum(searchCosts);
+    const judgeCost = sum(judgeCosts);
+    const queryCount = new Set(rows.map((row) => row.result.queryId ?? queryIdFor(row.result))).size;
+    const judgePart = judgeCosts.length > 0 ? `judge ${formatUsd(judgeCost)}` : "judge not recorded";
+    parts.push(
+      `Estimated cost: ${formatUsd(searchCost + judgeCost)} (search ${formatUsd(searchCost)}, ${judgePart}), ${formatUsd((searchCost + judgeCost) / queryCount)} per query.`
+    );
+  }
+  return parts.join(" ");
+}
+
+function renderMarkdown(runId: string, rows: ReportRow[], report: Report): string {
+  const lines = [`# Search Evals Report: ${runId}`, "", overview(rows)];
+  for (const section of report.sections) {
+    lines.push("", `## ${section.title}`, "", renderMarkdownTable(leaderboardTable(section.summaries)));
+  }
+  if (report.comparisons.length > 0) {
+    lines.push("", `## ${COMPARISONS_TITLE}`, "", COMPARISONS_NOTE, "", renderMarkdownTable(comparisonTable(report.comparisons)));
+    lines.push("", `## ${WIN_MATRIX_TITLE}`, "", WIN_MATRIX_NOTE, "", renderMarkdownTable(winMatrixTable(report.comparisons, report.configIds)));
+  }
+  if (report.stability.length > 0) {
+    lines.push("", `## ${STABILITY_TITLE}`, "", STABILITY_NOTE, "", renderMarkdownTable(stabilityTable(report.stability)));
+  }
+  if (report.recency.length > 0) {
+    lines.push("", `## ${RECENCY_TITLE}`, "", RECENCY_NOTE, "", renderMarkdownTable(recencyTable(report.recency)));
+  }
+  if (report.missedFacts.length > 0) {
+    lines.push("", `## ${FACTS_TITLE}`, "", FACTS_NOTE, "", renderMarkdownTable(missedFactsTable(report.missedFacts, report.configIds)));
+  }
+  if (report.tagBreakdown.length > 0) {
+    lines.push("", `## ${TAGS_TITLE}`, "", TAGS_NOTE, "", renderMarkdownTable(tagTable(report.tagBreakdown, report.configIds)));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function renderHtml(runId: string, rows: ReportRow[], report: Report): string {
+  const parts = report.sections.map(
+    (section) => `<h2>${escapeHtml(section.title)}</h2>\n${renderHtmlTable(leaderboardTable(section.summaries))}`
+  );
+  if (report.comparisons.length > 0) {
+    parts.push(
+      `<h2>${COMPARISONS_TITLE}</h2>\n<p>${escapeHtml(COMPARISONS_NOTE)}</p>\n${renderHtmlTable(comparisonTable(report.comparisons))}`,
+      `<h2>${WIN_MATRIX_TITLE}</h2>\n<p>${escapeHtml(WIN_MATRIX_NOTE)}</p>\n${renderHtmlTable(winMatrixTable(report.comparisons, report.configIds))}`
+    );
+  }
+  if (report.stability.length > 0) {
+    parts.push(`<h2>${escapeHtml(STABILITY_TITLE)}</h2>\n<p>${escapeHtml(STABILITY_NOTE)}</p>\n${renderHtmlTable(stabilityTable(report.stability))}`);
+  }
+  if (report.recency.length > 0) {
+    parts.push(`<h2>${escapeHtml(RECENCY_TITLE)}</h2>\n<p>${escapeHtml(RECENCY_NOTE)}</p>\n${renderHtmlTable(recencyTable(report.recency))}`);
+  }
+  if (report.missedFacts.length > 0) {
+    parts.push(
+      `<h2>${FACTS_TITLE}</h2>\n<p>${escapeHtml(FACTS_NOTE)}</p>\n${renderHtmlTable(missedFactsTable(report.missedFacts, report.configIds))}`
+    );
+  }
+  if (report.tagBreakdown.length > 0) {
+    parts.push(
+      `<h2>${TAGS_TITLE}</h2>\n<p>${escapeHtml(TAGS_NOTE)}</p>\n${renderHtmlTable(tagTable(report.tagBreakdown, report.configIds))}`
+    );
+  }
+  const body = parts.join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Search Evals Report: ${escapeHtml(runId)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { padding: 0.35rem 0.75rem; border-bottom: 1px solid #ddd; text-align: right; }
+  th:nth-child(2), td:nth-child(2), th:nth-child(3), td:nth-child(3) { text-align: left; }
+  thead th { background: #f4f4f4; }
+  tbody tr:first-child { font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>Search Evals Report: ${escapeHtml(runId)}</h1>
+<p>${escapeHtml(overview(rows))}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the leaderboard for a results file, print it and write the
+ * Markdown and HTML reports
+ */
+export async function report(
+  resultsPath: string,
+  options: ReportOptions = {}
+): Promise<{ markdownPath: string; htmlPath: string }> {
+  const runId = basename(resultsPath, ".json");
+  const rows = await loadReportRows(resultsPath, options.evalsPath);
+  const built = buildReport(rows, {
+    iterations: options.iterations,
+    random: createRandom(options.seed ?? 1),
+  });
+
+  console.log(overview(rows));
+  for (const section of built.sections) {
+    console.log("");
+    console.log(`${section.title}:`);
+    console.log(renderTextTable(leaderboardTable(section.summaries)));
+  }
+  if (built.comparisons.length > 0) {
+    console.log("");
+    console.log(`${COMPARISONS_TITLE} (${COMPARISONS_NOTE})`);
+    console.log(renderTextTable(comparisonTable(built.comparisons)));
+    console.log("");
+    console.log(`${WIN_MATRIX_TITLE} (${WIN_MATRIX_NOTE})`);
+    console.log(renderTextTable(winMatrixTable(built.comparisons, built.configIds)));
+  }
+  if (built.stability.length > 0) {
+    console.log("");
+    console.log(`${STABILITY_TITLE} (${STABILITY_NOTE})`);
+    console.log(renderTextTable(stabilityTable(built.stability)));
+  }
+  if (built.recency.length > 0) {
+    console.log("");
+    console.log(`${RECENCY_TITLE} (${RECENCY_NOTE})`);
+    console.log(renderTextTable(recencyTable(built.recency)));
+  }
+  if (built.missedFacts.length > 0) {
+    console.log("");
+    console.log(`${FACTS_TITLE} (${FACTS_NOTE})`);
+    console.log(renderTextTable(missedFactsTable(built.missedFacts, built.configIds)));
+  }
+  if (built.tagBreakdown.length > 0) {
+    console.log("");
+    console.log(`${TAGS_TITLE} (${TAGS_NOTE})`);
+    console.log(renderTextTable(tagTable(built.tagBreakdown, built.configIds)));
+  }
+
+  const outputDir = options.outputDir ?? join(projectRoot, "reports");
+  await mkdir(outputDir, { recursive: true });
+  const markdownPath = join(outputDir, `${runId}.md`);
+  const htmlPath = join(outputDir, `${runId}.html`);
+  await writeFile(markdownPath, renderMarkdown(runId, rows, built), "utf-8");
+  await writeFile(htmlPath, renderHtml(runId, rows, built), "utf-8");
+
+  console.log("");
+  console.log(`Report written to: ${markdownPath}`);
+  console.log(`                   ${htmlPath}`);
+
+  return { markdownPath, htmlPath };
+}
+
+/**
+ * Main function for standalone execution
+ */
+async function main(): Promise<void> {
+  const { values: args, positionals } = parseArgs({
+    options: {
+      evals: { type: "string" },
+      output: { type: "string" },
+      seed: { type: "string" },
+      iterations: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const fileArg = positionals[0];
+  const resultsPath = fileArg ? resolve(fileArg) : await findLatestResultsFile();
+
+  console.log(`Reporting: ${resultsPath}`);
+  await report(resultsPath, {
+    evalsPath: args.evals ? resolve(args.evals) : undefined,
+    outputDir: args.output ? resolve(args.output) : undefined,
+    seed: parseInteger(args.seed, "seed"),
+    iterations: parsePositiveInt(args.iterations, "iterations"),
+  });
+}
+
+// Only run main() when executed directly, not when imported
+const isMainModule = process.argv[1]?.endsWith("report.js");
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Error during report:", error);
+    process.exit(1);
+  });
+}
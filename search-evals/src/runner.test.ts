@@ -0,0 +1,416 @@
+/**
+ * Runner tests, against the local mock search server
+ */
+
+import { describe, it, before, after, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { QueryResult, RetryOptions, RunResult, SearchConfig, SearchQuery } from "./types.js";
+import type { LoadedQuery } from "./queries.js";
+import { isQueryRunnable, validateQueries, executeQuery, runEvaluation, saveResults, printSummary } from "./runner.js";
+import { checkpointPath } from "./checkpoint.js";
+import { Limiter } from "./utils/concurrency.js";
+import { startMockSearchServer, type MockSearchServer } from "./mock-server.js";
+
+/** Retries without waiting, so retry tests stay fast */
+const fastRetry: RetryOptions = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+function mockConfig(id: string, parameters: Record<string, unknown> = {}): SearchConfig {
+  return { id, gateway: "mock", parameters };
+}
+
+function loaded(queries: unknown[]): LoadedQuery[] {
+  return queries.map((query, index) => ({
+    query: query as SearchQuery,
+    file: "test.json",
+    index,
+    source: `test.json #${index + 1}`,
+  }));
+}
+
+/**
+ * Silence console output for the rest of the test and return what was written
+ */
+function captureConsole(t: TestContext, method: "log" | "warn"): () => string {
+  const { mock } = t.mock.method(console, method, () => {});
+  return () => mock.calls.map((call) => call.arguments.join(" ")).join("\n");
+}
+
+describe("isQueryRunnable", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+
+  it("runs queries without a window", () => {
+    assert.equal(isQueryRunnable({ query: "q" }, now), true);
+  });
+
+  it("runs queries inside their window, including an open end", () => {
+    assert.equal(isQueryRunnable({ query: "q", validFrom: "2026-02-01T00:00:00Z", validUntil: null }, now), true);
+    assert.equal(
+      isQueryRunnable({ query: "q", validFrom: "2026-02-01T00:00:00Z", validUntil: "2026-03-02T00:00:00Z" }, now),
+      true
+    );
+  });
+
+  it("skips queries before or after their window", () => {
+    assert.equal(isQueryRunnable({ query: "q", validFrom: "2026-03-02T00:00:00Z" }, now), false);
+    assert.equal(isQueryRunnable({ query: "q", validUntil: "2026-02-28T00:00:00Z" }, now), false);
+  });
+});
+
+describe("validateQueries", () => {
+  it("keeps valid queries and warns about invalid ones", (t) => {
+    const warnings = captureConsole(t, "warn");
+    const valid = validateQueries(
+      loaded([
+        { query: "Who won?", groundTruth: "Someone" },
+        { query: "" },
+        { query: "Bad date", validFrom: "not a date" },
+        { query: "Reversed", validFrom: "2026-02-01T00:00:00Z", validUntil: "2026-01-01T00:00:00Z" },
+        { query: "Bad difficulty", difficulty: "impossible" },
+        { query: "Facts without truth", facts: [{ fact: "x" }] },
+      ])
+    );
+
+    assert.deepEqual(
+      valid.map((query) => query.query),
+      ["Who won?"]
+    );
+    const output = warnings();
+    assert.match(output, /Skipped 5 invalid queries/);
+    assert.match(output, /test\.json #2 has an invalid or empty "query"/);
+    assert.match(output, /test\.json #3 has invalid "validFrom"/);
+    assert.match(output, /test\.json #4 has validFrom after validUntil/);
+    assert.match(output, /test\.json #5 has invalid "difficulty"/);
+    assert.match(output, /test\.json #6 has "facts" or "mustNotContain" without a "groundTruth"/);
+  });
+
+  it("rejects duplicate ids", () => {
+    assert.throws(
+      () => validateQueries(loaded([{ id: "same", query: "One" }, { id: "same", query: "Two" }])),
+      /Duplicate query ids:\n {2}- same: test\.json #1, test\.json #2/
+    );
+  });
+});
+
+describe("executeQuery", () => {
+  let server: MockSearchServer;
+  const query: SearchQuery = { query: "Who won the 2026 final?", groundTruth: "Someone" };
+
+  before(async () => {
+    server = await startMockSearchServer({ port: 0, retryAfterSeconds: 0 });
+    process.env.MOCK_SEARCH_URL = server.url;
+  });
+
+  after(async () => {
+    delete process.env.MOCK_SEARCH_URL;
+    await server.close();
+  });
+
+  it("records a successful response with normalized results", async () => {
+    const result = await executeQuery(query, mockConfig("mock-ok", { max_results: 3 }), fastRetry);
+
+    assert.equal(result.hasError, false);
+    assert.equal(result.configId, "mock-ok");
+    assert.equal(result.groundTruth, "Someone");
+    assert.equal(result.response.attempts, 1);
+    assert.equal(result.response.results?.length, 3);
+    assert.equal(result.response.results?.[0].rank, 1);
+    assert.deepEqual(result.resolvedParameters, { max_results: 3, scenario: "ok", timeout_ms: 30000 });
+  });
+
+  it("measures the simulated latency", async () => {
+    const result = await executeQuery(query, mockConfig("mock-slow", { latency_ms: 50 }), fastRetry);
+    assert.equal(result.hasError, false);
+    assert.ok(result.response.latencyMs >= 45, `latency ${result.response.latencyMs}ms`);
+  });
+
+  it("retries server errors and records the final failure", async (t) => {
+    captureConsole(t, "log");
+    const before = server.requests.length;
+    const result = await executeQuery(query, mockConfig("mock-error", { scenario: "error" }), fastRetry);
+
+    assert.equal(result.hasError, true);
+    assert.equal(result.response.errorType, "server");
+    assert.equal(result.response.statusCode, 500);
+    assert.equal(result.response.attempts, 3);
+    assert.equal(server.requests.length - before, 3);
+  });
+
+  it("recovers when a 429 clears on retry", async (t) => {
+    const logs = captureConsole(t, "log");
+    const result = await executeQuery(
+      { query: "Rate limited once" },
+      mockConfig("mock-429", { scenario: "rate_limited", fail_first: 1 }),
+      fastRetry
+    );
+
+    assert.equal(result.hasError, false);
+    assert.equal(result.response.attempts, 2);
+    assert.match(logs(), /↻ mock-429: rate_limited \(attempt 1\/3\)/);
+  });
+
+  it("sends every attempt through the schedule", async (t) => {
+    captureConsole(t, "log");
+    let scheduled = 0;
+    const result = await executeQuery(
+      { query: "Rate limited twice" },
+      mockConfig("mock-429", { scenario: "rate_limited", fail_first: 2 }),
+      fastRetry,
+      undefined,
+      (call) => {
+        scheduled++;
+        return call();
+      }
+    );
+
+    assert.equal(result.response.attempts, 3);
+    assert.equal(scheduled, 3);
+  });
+
+  it("frees its slot while it backs off before a retry", async (t) => {
+    captureConsole(t, "log");
+    // Full jitter at its ceiling: a 200ms backoff
+    t.mock.method(Math, "random", () => 1);
+    const retry: RetryOptions = { maxAttempts: 2, baseDelayMs: 200, maxDelayMs: 200 };
+    const slot = new Limiter({ maxConcurrent: 1 });
+    const schedule = <T>(call: () => Promise<T>) => slot.run(call);
+    const finished: string[] = [];
+
+    await Promise.all([
+      executeQuery({ query: "Backs off" }, mockConfig("mock-429", { scenario: "rate_limited", fail_first: 1 }), retry, undefined, schedule)
+        .then(() => finished.push("mock-429")),
+      executeQuery({ query: "Waits for the slot" }, mockConfig("mock-ok"), retry, undefined, schedule)
+        .then(() => finished.push("mock-ok")),
+    ]);
+
+    assert.deepEqual(finished, ["mock-ok", "mock-429"]);
+  });
+
+  it("fails a flaky config's first call even after other configs asked the same query", async (t) => {
+    captureConsole(t, "log");
+    const shared: SearchQuery = { query: "Asked by every config" };
+    const flaky = mockConfig("mock-flaky", { scenario: "rate_limited", fail_first: 1 });
+
+    await executeQuery(shared, mockConfig("mock-ok"), fastRetry);
+    await executeQuery(shared, mockConfig("mock-error", { scenario: "error" }), fastRetry);
+    const first = await executeQuery(shared, flaky, fastRetry);
+    const second = await executeQuery(shared, flaky, fastRetry);
+
+    assert.equal(first.hasError, false);
+    assert.equal(first.response.attempts, 2);
+    assert.equal(second.response.attempts, 1);
+  });
+
+  it("does not retry when Retry-After is above the delay cap", async (t) => {
+    const logs = captureConsole(t, "log");
+    const patient = await startMockSearchServer({ port: 0, retryAfterSeconds: 3600 });
+    process.env.MOCK_SEARCH_URL = patient.url;
+    try {
+      const result = await executeQuery(query, mockConfig("mock-429", { scenario: "rate_limited" }), fastRetry);
+
+      assert.equal(result.hasError, true);
+      assert.equal(result.response.errorType, "rate_limited");
+      assert.equal(result.response.attempts, 1);
+      assert.match(logs(), /server asked to wait 3600000ms \(over the 1ms cap\), not retrying/);
+    } finally {
+      process.env.MOCK_SEARCH_URL = server.url;
+      await patient.close();
+    }
+  });
+
+  it("does not retry malformed payloads", async () => {
+    const result = await executeQuery(query, mockConfig("mock-malformed", { scenario: "malformed" }), fastRetry);
+
+    assert.equal(result.hasError, true);
+    assert.equal(result.response.errorType, "parse");
+    assert.equal(result.response.attempts, 1);
+    assert.equal(result.response.data, null);
+  });
+
+  it("classifies a slow response as a timeout", async (t) => {
+    captureConsole(t, "log");
+    const result = await executeQuery(
+      query,
+      mockConfig("mock-timeout", { latency_ms: 200, timeout_ms: 20 }),
+      { ...fastRetry, maxAttempts: 1 }
+    );
+
+    assert.equal(result.hasError, true);
+    assert.equal(result.response.errorType, "timeout");
+  });
+});
+
+function result(configId: string, overrides: Partial<QueryResult> = {}): QueryResult {
+  return {
+    queryId: "q1",
+    query: "Who won?",
+    groundTruth: "Someone",
+    configId,
+    gateway: "mock",
+    parameters: {},
+    executedAt: "2026-03-01T12:00:00.000Z",
+    response: { data: {}, results: [], latencyMs: 100, tokenCount: 10 },
+    hasError: false,
+    ...overrides,
+  };
+}
+
+const failed = (configId: string): QueryResult =>
+  result(configId, {
+    hasError: true,
+    response: { data: null, latencyMs: 5, tokenCount: 0, error: "Too many requests", errorType: "rate_limited", attempts: 3 },
+  });
+
+describe("runEvaluation", () => {
+  let server: MockSearchServer;
+  let dir: string;
+  let queryFile: string;
+
+  before(async () => {
+    server = await startMockSearchServer({ port: 0 });
+    process.env.MOCK_SEARCH_URL = server.url;
+    dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    queryFile = join(dir, "queries.json");
+    const queries = Array.from({ length: 8 }, (_, i) => ({ query: `Question ${i + 1}`, groundTruth: `Answer ${i + 1}` }));
+    await writeFile(queryFile, JSON.stringify(queries), "utf-8");
+  });
+
+  after(async () => {
+    delete process.env.MOCK_SEARCH_URL;
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("refuses to resume a run that has no checkpoint", async (t) => {
+    captureConsole(t, "log");
+    await assert.rejects(
+      runEvaluation([mockConfig("mock-ok")], { runId: "2000-01-01T00-00-00.000Z", resume: true, checkpointDir: dir }),
+      /No checkpoint for run 2000-01-01T00-00-00\.000Z/
+    );
+  });
+
+  it("resumes an unseeded sample with the seed recorded in its checkpoint", async (t) => {
+    const logs = captureConsole(t, "log");
+    const runId = "2000-01-02T00-00-00.000Z";
+    const queries = (run: RunResult) => run.results.map((result) => result.query);
+    const first = await runEvaluation([mockConfig("mock-ok")], {
+      runId,
+      checkpointDir: dir,
+      selection: { queryFiles: [queryFile], sample: 3 },
+    });
+    assert.equal(typeof first.seed, "number");
+    assert.match(logs(), new RegExp(`Sampled 3 queries \\(seed ${first.seed}; --seed ${first.seed} draws the same sample\\)`));
+
+    // Keep only the metadata line, as if the run was interrupted before any call finished
+    const [metadata] = (await readFile(checkpointPath(runId, dir), "utf-8")).split("\n");
+    await writeFile(checkpointPath(runId, dir), `${metadata}\n`, "utf-8");
+
+    const resumed = await runEvaluation([mockConfig("mock-ok")], {
+      runId,
+      resume: true,
+      checkpointDir: dir,
+      selection: { queryFiles: [queryFile] },
+    });
+    assert.equal(resumed.seed, first.seed);
+    assert.deepEqual(queries(resumed), queries(first));
+
+    await assert.rejects(
+      runEvaluation([mockConfig("mock-ok")], {
+        runId,
+        resume: true,
+        checkpointDir: dir,
+        selection: { queryFiles: [queryFile], sample: 3, seed: first.seed! + 1 },
+      }),
+      new RegExp(`was started with --seed ${first.seed}`)
+    );
+  });
+
+  it("resumes a repeated run with the trial count recorded in its checkpoint", async (t) => {
+    captureConsole(t, "log");
+    const runId = "2000-01-03T00-00-00.000Z";
+    const trials = (run: RunResult) => run.results.map((result) => `${result.query}#${result.trial}`);
+    const first = await runEvaluation([mockConfig("mock-ok")], {
+      runId,
+      checkpointDir: dir,
+      repeat: 2,
+      selection: { queryFiles: [queryFile], limit: 2 },
+    });
+    assert.equal(first.repeat, 2);
+
+    // Keep the metadata line and the first trial, as if the run was interrupted between rounds
+    const lines = (await readFile(checkpointPath(runId, dir), "utf-8")).split("\n").filter(Boolean);
+    const kept = lines.filter((line, i) => i === 0 || JSON.parse(line).trial === 1);
+    assert.equal(kept.length, 3);
+    await writeFile(checkpointPath(runId, dir), `${kept.join("\n")}\n`, "utf-8");
+
+    const resumed = await runEvaluation([mockConfig("mock-ok")], {
+      runId,
+      resume: true,
+      checkpointDir: dir,
+      selection: { queryFiles: [queryFile], limit: 2 },
+    });
+    assert.equal(resumed.repeat, 2);
+    assert.deepEqual(trials(resumed), trials(first));
+
+    await assert.rejects(
+      runEvaluation([mockConfig("mock-ok")], {
+        runId,
+        resume: true,
+        checkpointDir: dir,
+        repeat: 3,
+        selection: { queryFiles: [queryFile], limit: 2 },
+      }),
+      /was started with --repeat 2/
+    );
+  });
+});
+
+describe("saveResults", () => {
+  it("writes the run as JSON named by its id", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    try {
+      const runResult: RunResult = {
+        id: "2026-03-01T12-00-00.000Z",
+        executedAt: "2026-03-01T12:00:00.000Z",
+        results: [result("mock-ok")],
+      };
+      const filepath = await saveResults(runResult, dir);
+
+      assert.equal(filepath, join(dir, "2026-03-01T12-00-00.000Z.json"));
+      assert.deepEqual(JSON.parse(await readFile(filepath, "utf-8")), runResult);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("printSummary", () => {
+  it("counts successes, errors and retries by config and gateway", (t) => {
+    const logs = captureConsole(t, "log");
+    printSummary({
+      id: "run-1",
+      executedAt: "2026-03-01T12:00:00.000Z",
+      results: [result("mock-a"), result("mock-a", { queryId: "q2" }), failed("mock-b")],
+    });
+
+    const output = logs();
+    assert.match(output, /Run ID: run-1/);
+    assert.match(output, /Total results: 3/);
+    assert.match(output, /Successful: 2/);
+    assert.match(output, /Errors: 1/);
+    assert.match(output, /Retried: 1 results/);
+    assert.match(output, /Average latency: 100ms/);
+    assert.match(output, /rate_limited: 1/);
+    assert.match(output, /mock-a: 2\/2 successful/);
+    assert.match(output, /mock-b: 0\/1 successful \(rate_limited: 1\)/);
+    assert.match(output, /mock: 2\/3 successful \(rate_limited: 1\)/);
+  });
+
+  it("handles an empty run", (t) => {
+    const logs = captureConsole(t, "log");
+    printSummary({ id: "run-empty", executedAt: "2026-03-01T12:00:00.000Z", results: [] });
+    assert.match(logs(), /Total results: 0/);
+  });
+});
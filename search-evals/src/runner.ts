@@ -4,17 +4,53 @@
  * Orchestrates running queries against gateway configurations and saving results.
  */
 
-import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { writeFile, mkdir } from "node:fs/promises";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import type {
   SearchQuery,
+  QueryDifficulty,
   SearchConfig,
   QueryResult,
   RunResult,
+  RunOptions,
+  RunPlan,
+  QuerySelection,
+  SkippedConfig,
+  RetryOptions,
   SearchResponse,
+  SearchErrorType,
 } from "./types.js";
-import { getGateway } from "./gateways/index.js";
+import {
+  getGateway,
+  getCassetteMode,
+  getMissingEnv,
+  validateConfigs,
+  resolveConfigParameters,
+} from "./gateways/index.js";
+import { CassetteMissError } from "./gateways/cassette.js";
+import { Limiter, sleep } from "./utils/concurrency.js";
+import { errorResponse, isRetryable } from "./utils/errors.js";
+import { backoffDelayMs, exceedsRetryCap } from "./utils/retry.js";
+import { queryIdFor, resultKey, resultKeyFor } from "./utils/keys.js";
+import { sampleItems } from "./utils/select.js";
+import { pricing, estimateSearchCost, resultCostUsd, formatUsd } from "./pricing.js";
+import { analyzeRecency, summarizeRecency, formatHours } from "./recency.js";
+import { summarizeStability } from "./stability.js";
+import { loadQueries, type LoadedQuery } from "./queries.js";
+import {
+  CheckpointWriter,
+  loadCheckpoint,
+  checkpointPath,
+  removeCheckpoint,
+  type CheckpointMetadata,
+} from "./checkpoint.js";
+
+export const defaultRetryOptions: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -34,40 +70,76 @@ export function isQueryRunnable(query: SearchQuery, now: Date): boolean {
   return true;
 }
 
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && item.trim().length > 0);
+}
+
 /**
- * Load queries from JSON files
+ * Describe what is wrong with a query's structured facts, if anything
  */
-async function loadQueries(): Promise<SearchQuery[]> {
-  const queriesDir = join(projectRoot, "queries");
-
-  const [staticQueries, temporalQueries] = await Promise.all([
-    readFile(join(queriesDir, "queries-static.json"), "utf-8").then(
-      (content) => JSON.parse(content) as SearchQuery[]
-    ),
-    readFile(join(queriesDir, "queries-temporal.json"), "utf-8").then(
-      (content) => JSON.parse(content) as SearchQuery[]
-    ),
-  ]);
-
-  return [...staticQueries, ...temporalQueries];
+function findFactsProblem(query: SearchQuery): string | undefined {
+  if (query.facts === undefined && query.mustNotContain === undefined) return undefined;
+  if (typeof query.groundTruth !== "string") {
+    return 'has "facts" or "mustNotContain" without a "groundTruth".';
+  }
+  if (query.mustNotContain !== undefined && !isStringList(query.mustNotContain)) {
+    return 'has "mustNotContain" that is not a list of non-empty strings.';
+  }
+  if (query.facts === undefined) return undefined;
+  if (!Array.isArray(query.facts) || query.facts.length === 0) {
+    return 'has "facts" that is not a non-empty list.';
+  }
+
+  for (const [index, fact] of query.facts.entries()) {
+    const label = `fact #${index + 1}`;
+    if (!fact || typeof fact !== "object" || typeof fact.fact !== "string" || fact.fact.trim().length === 0) {
+      return `has ${label} without a "fact" string.`;
+    }
+    if (fact.alternatives !== undefined && !isStringList(fact.alternatives)) {
+      return `has ${label} with "alternatives" that is not a list of non-empty strings.`;
+    }
+    if (fact.value !== undefined && (typeof fact.value !== "number" || !Number.isFinite(fact.value))) {
+      return `has ${label} with a non-numeric "value".`;
+    }
+    if (fact.tolerance !== undefined && (typeof fact.tolerance !== "number" || fact.tolerance < 0)) {
+      return `has ${label} with a negative or non-numeric "tolerance".`;
+    }
+    if ((fact.tolerance !== undefined || fact.units !== undefined) && fact.value === undefined) {
+      return `has ${label} with "tolerance" or "units" but no "value".`;
+    }
+    if (fact.units !== undefined && !isStringList(fact.units)) {
+      return `has ${label} with "units" that is not a list of non-empty strings.`;
+    }
+  }
+
+  const names = query.facts.map((fact) => fact.fact);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) return `has the fact "${duplicate}" twice.`;
+  return undefined;
 }
 
+const QUERY_DIFFICULTIES: readonly QueryDifficulty[] = ["easy", "medium", "hard"];
+
 function isValidIsoDate(value: string): boolean {
   return !Number.isNaN(Date.parse(value));
 }
 
-function validateQueries(queries: SearchQuery[]): SearchQuery[] {
+/**
+ * Keep the loaded queries that are well-formed, warning about the rest
+ * @throws Error if two valid queries share an id
+ */
+export function validateQueries(loaded: LoadedQuery[]): SearchQuery[] {
   const valid: SearchQuery[] = [];
   const warnings: string[] = [];
 
-  queries.forEach((query, index) => {
+  loaded.forEach(({ query, source }) => {
     if (!query || typeof query !== "object") {
-      warnings.push(`Query #${index + 1} is not an object.`);
+      warnings.push(`${source} is not an object.`);
       return;
     }
 
     if (typeof query.query !== "string" || query.query.trim().length === 0) {
-      warnings.push(`Query #${index + 1} has an invalid or empty "query" field.`);
+      warnings.push(`${source} has an invalid or empty "query" field.`);
       return;
     }
 
@@ -75,12 +147,18 @@ function validateQueries(queries: SearchQuery[]): SearchQuery[] {
       query.groundTruth !== undefined &&
       typeof query.groundTruth !== "string"
     ) {
-      warnings.push(`Query #${index + 1} has a non-string "groundTruth".`);
+      warnings.push(`${source} has a non-string "groundTruth".`);
+      return;
+    }
+
+    const factsProblem = findFactsProblem(query);
+    if (factsProblem) {
+      warnings.push(`${source} ${factsProblem}`);
       return;
     }
 
     if (query.validFrom && !isValidIsoDate(query.validFrom)) {
-      warnings.push(`Query #${index + 1} has invalid "validFrom": ${query.validFrom}`);
+      warnings.push(`${source} has invalid "validFrom": ${query.validFrom}`);
       return;
     }
 
@@ -89,7 +167,7 @@ function validateQueries(queries: SearchQuery[]): SearchQuery[] {
       query.validUntil !== null &&
       (!query.validUntil || !isValidIsoDate(query.validUntil))
     ) {
-      warnings.push(`Query #${index + 1} has invalid "validUntil": ${query.validUntil}`);
+      warnings.push(`${source} has invalid "validUntil": ${query.validUntil}`);
       return;
     }
 
@@ -97,11 +175,38 @@ function validateQueries(queries: SearchQuery[]): SearchQuery[] {
       const from = new Date(query.validFrom).getTime();
       const until = new Date(query.validUntil).getTime();
       if (from > until) {
-        warnings.push(`Query #${index + 1} has validFrom after validUntil.`);
+        warnings.push(`${source} has validFrom after validUntil.`);
         return;
       }
     }
 
+    if (query.id !== undefined && (typeof query.id !== "string" || query.id.trim().length === 0)) {
+      warnings.push(`${source} has an invalid or empty "id".`);
+      return;
+    }
+
+    if (
+      query.tags !== undefined &&
+      (!Array.isArray(query.tags) || query.tags.some((tag) => typeof tag !== "string"))
+    ) {
+      warnings.push(`${source} has "tags" that are not a list of strings.`);
+      return;
+    }
+
+    for (const field of ["category", "locale"] as const) {
+      if (query[field] !== undefined && typeof query[field] !== "string") {
+        warnings.push(`${source} has a non-string "${field}".`);
+        return;
+      }
+    }
+
+    if (query.difficulty !== undefined && !QUERY_DIFFICULTIES.includes(query.difficulty)) {
+      warnings.push(
+        `${source} has invalid "difficulty": ${query.difficulty} (expected ${QUERY_DIFFICULTIES.join(", ")})`
+      );
+      return;
+    }
+
     valid.push(query);
   });
 
@@ -114,6 +219,20 @@ function validateQueries(queries: SearchQuery[]): SearchQuery[] {
     console.warn("");
   }
 
+  // Ids key results, checkpoints and evals, so they must be unique
+  const sourcesById = new Map<string, string[]>();
+  loaded.forEach(({ query, source }) => {
+    if (!valid.includes(query)) return;
+    const id = queryIdFor(query);
+    sourcesById.set(id, [...(sourcesById.get(id) ?? []), source]);
+  });
+  const duplicates = [...sourcesById].filter(([, sources]) => sources.length > 1);
+  if (duplicates.length > 0) {
+    throw new Error(
+      `Duplicate query ids:\n${duplicates.map(([id, sources]) => `  - ${id}: ${sources.join(", ")}`).join("\n")}`
+    );
+  }
+
   return valid;
 }
 
@@ -128,43 +247,116 @@ function generateResultFilename(): string {
 }
 
 /**
- * Execute a single query against a config and return the result
+ * Call a gateway once, converting thrown errors into an error response
  */
-async function executeQuery(
+async function callGateway(
   query: SearchQuery,
-  config: SearchConfig
-): Promise<QueryResult> {
+  config: SearchConfig,
+  trial?: number
+): Promise<SearchResponse> {
   const startTime = Date.now();
-  const executedAt = new Date().toISOString();
-  let response: SearchResponse;
 
   try {
     const gateway = getGateway(config.gateway);
-    response = await gateway.search(query.query, config.parameters);
+    return await gateway.search(query.query, config.parameters, { trial });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    response = {
-      data: null,
-      latencyMs: Date.now() - startTime,
-      tokenCount: 0,
-      error: errorMessage,
-    };
+    // A replay miss means the fixtures are incomplete; abort the run loudly
+    if (error instanceof CassetteMissError) throw error;
+    return errorResponse(error, startTime);
   }
+}
 
-  return {
+/**
+ * Create a run id from a timestamp (colons replaced for filesystem safety)
+ */
+export function createRunId(date: Date): string {
+  return date.toISOString().replace(/:/g, "-");
+}
+
+/**
+ * Recover the start time of a run from its id
+ */
+export function runIdToDate(runId: string): Date {
+  const match = runId.match(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2}(?:\.\d+)?Z)$/);
+  const date = match ? new Date(`${match[1]}:${match[2]}:${match[3]}`) : new Date(NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid run id "${runId}": expected a timestamp like 2026-02-03T19-15-07.998Z`);
+  }
+  return date;
+}
+
+/**
+ * Execute a single query against a config and return the result
+ *
+ * Transient failures (rate limits, timeouts, server errors) are retried with
+ * exponential backoff; the final response records how many attempts it took.
+ * Every attempt goes through `schedule` (e.g. the run's limiters), and the
+ * backoff between attempts happens outside it, so a waiting retry holds no
+ * slot and a retry is rate limited like any other call.
+ */
+export async function executeQuery(
+  query: SearchQuery,
+  config: SearchConfig,
+  retry: RetryOptions = defaultRetryOptions,
+  trial?: number,
+  schedule: <T>(call: () => Promise<T>) => Promise<T> = (call) => call()
+): Promise<QueryResult> {
+  const executedAt = new Date().toISOString();
+  let response: SearchResponse;
+  let attempt = 0;
+
+  while (true) {
+    attempt++;
+    response = await schedule(() => callGateway(query, config, trial));
+
+    if (
+      !response.error ||
+      attempt >= retry.maxAttempts ||
+      !isRetryable(response.errorType)
+    ) {
+      break;
+    }
+    if (exceedsRetryCap(retry, response.retryAfterMs)) {
+      console.log(
+        `  ⚠ ${config.id}: ${response.errorType}, server asked to wait ${response.retryAfterMs}ms (over the ${retry.maxDelayMs}ms cap), not retrying`
+      );
+      break;
+    }
+
+    const delayMs = backoffDelayMs(attempt, retry, response.retryAfterMs);
+    console.log(
+      `  ↻ ${config.id}: ${response.errorType} (attempt ${attempt}/${retry.maxAttempts}), retrying in ${delayMs}ms`
+    );
+    await sleep(delayMs);
+  }
+
+  response.attempts = attempt;
+  const resolvedParameters = resolveConfigParameters(config);
+
+  const result: QueryResult = {
     // Query info
+    queryId: queryIdFor(query),
     query: query.query,
     groundTruth: query.groundTruth,
+    facts: query.facts,
+    mustNotContain: query.mustNotContain,
     validFrom: query.validFrom,
     validUntil: query.validUntil,
+    tags: query.tags,
+    category: query.category,
+    difficulty: query.difficulty,
+    locale: query.locale,
 
     // Config info
     configId: config.id,
     gateway: config.gateway,
     parameters: config.parameters,
+    resolvedParameters,
 
     // Execution info
     executedAt,
+    trial,
+    costUsd: estimateSearchCost(config.gateway, resolvedParameters, response),
 
     // Response
     response,
@@ -172,45 +364,77 @@ async function executeQuery(
     // Quick flag for scanning
     hasError: !!response.error,
   };
+  result.recency = analyzeRecency(result);
+  return result;
 }
 
 /**
- * Run all query × config combinations and return results
+ * Narrow runnable queries by text, then to a seeded sample or the first N
  */
-export async function runEvaluation(
-  configs: SearchConfig[]
-): Promise<RunResult> {
-  const now = new Date();
-  const runId = now.toISOString().replace(/:/g, "-");
+function selectQueries(queries: SearchQuery[], selection: QuerySelection): SearchQuery[] {
+  let selected = queries;
 
-  console.log(`Starting evaluation run: ${runId}`);
+  if (selection.queryIds) {
+    const ids = new Set(selection.queryIds);
+    selected = selected.filter((query) => ids.has(queryIdFor(query)));
+  }
+  if (selection.queryMatch) {
+    const pattern = selection.queryMatch;
+    selected = selected.filter((query) => pattern.test(query.query));
+    console.log(`${selected.length} queries match ${pattern}`);
+  }
+  if (selection.sample !== undefined) {
+    selected = sampleItems(selected, selection.sample, selection.seed ?? 1);
+    console.log(
+      `Sampled ${selected.length} queries (seed ${selection.seed ?? 1}; --seed ${selection.seed ?? 1} draws the same sample)`
+    );
+  }
+  if (selection.limit !== undefined && selected.length > selection.limit) {
+    selected = selected.slice(0, selection.limit);
+    console.log(`Limited to the first ${selected.length} queries`);
+  }
 
-  const requiredEnvByGateway: Record<string, string[]> = {
-    tavily: ["TAVILY_API_KEY"],
-    parallel: ["PARALLEL_API_KEY"],
-    "gemini-search": ["GEMINI_API_KEY"],
-    you: ["YOU_API_KEY"],
-  };
+  return selected;
+}
 
+/**
+ * Work out which configs and queries a run covers, without calling anything
+ *
+ * Configs whose gateway is missing an API key are skipped (except when
+ * replaying a cassette); queries outside their validity window at the run
+ * time are dropped before the selection is applied.
+ */
+export async function planRun(
+  configs: SearchConfig[],
+  options: RunOptions = {}
+): Promise<RunPlan> {
+  // The run time comes from the run id, so a resumed run sees the same
+  // temporal queries within their validity window as the original
+  const runId = options.runId ?? createRunId(new Date());
+  const now = runIdToDate(runId);
+
+  // Fail before any call on unknown gateways or parameters
+  validateConfigs(configs);
+
+  // Replayed runs never call the APIs, so they need no keys
+  const checkEnv = getCassetteMode() !== "replay";
+
+  const skippedConfigs: SkippedConfig[] = [];
   const runnableConfigs = configs.filter((config) => {
-    const required = requiredEnvByGateway[config.gateway] ?? [];
-    const missing = required.filter((key) => !process.env[key]);
+    if (!checkEnv) return true;
+    const missing = getMissingEnv(config.gateway);
     if (missing.length > 0) {
       console.warn(
         `Skipping config ${config.id} (missing ${missing.join(", ")})`
       );
+      skippedConfigs.push({ config, missingEnv: missing });
       return false;
     }
     return true;
   });
 
-  if (runnableConfigs.length === 0) {
-    console.warn("No runnable configs. Set missing API keys to run evaluations.");
-    return { id: runId, executedAt: now.toISOString(), results: [] };
-  }
-
   // Load all queries
-  const allQueries = await loadQueries();
+  const allQueries = await loadQueries(options.selection?.queryFiles);
   console.log(`Loaded ${allQueries.length} total queries`);
   const validatedQueries = validateQueries(allQueries);
 
@@ -223,50 +447,260 @@ export async function runEvaluation(
     console.log(`Skipped ${skippedCount} queries outside validity window`);
   }
 
+  // An unseeded sample still gets a seed so it can be reproduced
+  const selection = options.selection ?? {};
+  const seed = selection.seed ?? (selection.sample !== undefined ? Date.now() % 1_000_000 : undefined);
+  const queries = selectQueries(runnableQueries, { ...selection, seed });
+
+  // Build the combinations in their output order
+  const combinations = queries.flatMap((query) =>
+    runnableConfigs.map((config) => ({ query, config }))
+  );
+
+  return {
+    runId,
+    now,
+    configs: runnableConfigs,
+    skippedConfigs,
+    queries,
+    combinations,
+    repeat: options.repeat ?? 1,
+    seed,
+  };
+}
+
+/**
+ * Print what a run would do: its combinations, skipped configs and the
+ * number of API calls to expect
+ */
+export function printPlan(plan: RunPlan, retry: RetryOptions = defaultRetryOptions): void {
+  console.log("");
+  console.log("Dry run: no gateways will be called");
+  console.log("");
+
+  console.log(`Configs (${plan.configs.length}):`);
+  for (const config of plan.configs) {
+    const tags = config.tags && config.tags.length > 0 ? ` [${config.tags.join(", ")}]` : "";
+    console.log(`  ${config.id} (${config.gateway})${tags}${config.description ? ` - ${config.description}` : ""}`);
+  }
+  if (plan.skippedConfigs.length > 0) {
+    console.log(`Skipped configs (${plan.skippedConfigs.length}):`);
+    for (const { config, missingEnv } of plan.skippedConfigs) {
+      console.log(`  ${config.id} (${config.gateway}): missing ${missingEnv.join(", ")}`);
+    }
+  }
+
+  console.log("");
+  console.log(`Queries (${plan.queries.length}):`);
+  for (const query of plan.queries) {
+    const window = query.validFrom || query.validUntil
+      ? ` [${query.validFrom ?? "…"} → ${query.validUntil ?? "…"}]`
+      : "";
+    console.log(`  ${queryIdFor(query)} "${query.query.substring(0, 70)}"${window}`);
+  }
+
+  console.log("");
+  console.log(`Combinations (${plan.combinations.length}):`);
+  for (const { query, config } of plan.combinations) {
+    console.log(`  ${resultKey(queryIdFor(query), config.id)}`);
+  }
+
+  const calls = plan.combinations.length * plan.repeat;
+  console.log("");
+  if (plan.repeat > 1) {
+    console.log(`Trials per combination: ${plan.repeat}`);
+  }
+  console.log(
+    `Estimated API calls: ${calls}` +
+      (retry.maxAttempts > 1 ? ` (up to ${calls * retry.maxAttempts} with retries)` : "")
+  );
+}
+
+/**
+ * The options of a resumed run: the sample size, seed and trial count
+ * recorded in its checkpoint fill in for options not given again
+ * @throws Error when a given option differs from the recorded one
+ */
+function resumedOptions(
+  runId: string,
+  options: RunOptions,
+  metadata: CheckpointMetadata = {}
+): RunOptions {
+  const selection = options.selection ?? {};
+  const given: CheckpointMetadata = { sample: selection.sample, seed: selection.seed, repeat: options.repeat };
+  for (const field of ["sample", "seed", "repeat"] as const) {
+    const recorded = metadata[field];
+    if (given[field] !== undefined && recorded !== undefined && given[field] !== recorded) {
+      throw new Error(
+        `Run ${runId} was started with --${field} ${recorded}; resume it without --${field} or with --${field} ${recorded}`
+      );
+    }
+  }
+
+  return {
+    ...options,
+    repeat: options.repeat ?? metadata.repeat,
+    selection:
+      metadata.sample === undefined
+        ? options.selection
+        : { ...selection, sample: metadata.sample, seed: selection.seed ?? metadata.seed },
+  };
+}
+
+/**
+ * Run all query × config combinations and return results
+ *
+ * Combinations run concurrently within the global and per-gateway limits;
+ * results are returned in query × config order regardless of completion order.
+ */
+export async function runEvaluation(
+  configs: SearchConfig[],
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const runId = options.runId ?? createRunId(new Date());
+
+  if (options.resume) {
+    console.log(`Resuming evaluation run: ${runId}`);
+  } else {
+    console.log(`Starting evaluation run: ${runId}`);
+  }
+
+  // Reuse results already checkpointed for this run, before any calls are made
+  const checkpointed = new Map<string, QueryResult>();
+  let runOptions = options;
+  if (options.resume) {
+    const checkpoint = await loadCheckpoint(runId, options.checkpointDir);
+    for (const result of checkpoint.results) {
+      checkpointed.set(resultKeyFor(result), result);
+    }
+    runOptions = resumedOptions(runId, options, checkpoint.metadata);
+  }
+
+  const plan = await planRun(configs, { ...runOptions, runId });
+  const { now, combinations, seed } = plan;
+
+  if (plan.configs.length === 0) {
+    console.warn("No runnable configs. Set missing API keys to run evaluations.");
+    return { id: runId, executedAt: now.toISOString(), pricingVersion: pricing.version, seed, results: [] };
+  }
+
   // Calculate total combinations
-  const totalCombinations = runnableQueries.length * runnableConfigs.length;
+  const { repeat } = plan;
   console.log(
-    `Running ${runnableQueries.length} queries × ${runnableConfigs.length} configs = ${totalCombinations} combinations`
+    `Running ${plan.queries.length} queries × ${plan.configs.length} configs = ${combinations.length} combinations` +
+      (repeat > 1 ? `, ${repeat} trials each` : "")
   );
+  console.log(`Concurrency: ${options.concurrency ?? "unlimited"}`);
+
+  // Results are ordered query × config × trial; trials run in rounds
+  const results: QueryResult[] = new Array(combinations.length * repeat);
+  const rounds: { query: SearchQuery; config: SearchConfig; index: number; trial?: number }[][] = [];
+  for (let round = 1; round <= repeat; round++) {
+    const trial = repeat > 1 ? round : undefined;
+    const pendingRound: (typeof rounds)[number] = [];
+    combinations.forEach(({ query, config }, combination) => {
+      const index = combination * repeat + round - 1;
+      const key = resultKey(queryIdFor(query), config.id, trial);
+      const existing = checkpointed.get(key);
+      if (existing) {
+        results[index] = existing;
+        checkpointed.delete(key);
+      } else {
+        pendingRound.push({ query, config, index, trial });
+      }
+    });
+    rounds.push(pendingRound);
+  }
+  const pendingCount = rounds.reduce((sum, round) => sum + round.length, 0);
+
+  if (options.resume) {
+    console.log(
+      `${results.length - pendingCount} calls already completed, ${pendingCount} remaining`
+    );
+  }
+  console.log(`Checkpointing to ${checkpointPath(runId, options.checkpointDir)}`);
   console.log("");
 
-  // Execute all combinations
-  const results: QueryResult[] = [];
+  // One limiter per gateway, plus a global cap on in-flight requests
+  const globalLimiter = new Limiter({ maxConcurrent: options.concurrency });
+  const gatewayLimiters = new Map<string, Limiter>();
+  for (const config of plan.configs) {
+    if (!gatewayLimiters.has(config.gateway)) {
+      gatewayLimiters.set(
+        config.gateway,
+        new Limiter(options.gatewayLimits?.[config.gateway])
+      );
+    }
+  }
+
+  // Execute each round's pending combinations concurrently, storing results by index
+  const checkpoint = new CheckpointWriter(
+    runId,
+    { sample: runOptions.selection?.sample, seed, repeat },
+    options.checkpointDir
+  );
   let completed = 0;
 
-  for (const query of runnableQueries) {
-    for (const config of runnableConfigs) {
-      completed++;
-      console.log(
-        `[${completed}/${totalCombinations}] "${query.query.substring(0, 40)}..." → ${config.id}`
-      );
+  for (const [round, pending] of rounds.entries()) {
+    if (round > 0 && options.repeatDelayMs && pending.length > 0) {
+      console.log(`Waiting ${options.repeatDelayMs}ms before trial ${round + 1}/${repeat}`);
+      await sleep(options.repeatDelayMs);
+    }
 
-      const result = await executeQuery(query, config);
-      results.push(result);
+    await Promise.all(
+      pending.map(async ({ query, config, index, trial }) => {
+        // Take the gateway slot first so slow gateways don't hold global slots
+        const limiters = [gatewayLimiters.get(config.gateway)!, globalLimiter];
+        const result = await executeQuery(query, config, options.retry, trial, (call) =>
+          Limiter.runAll(limiters, call)
+        );
+        results[index] = result;
+        await checkpoint.append(result);
 
-      if (result.hasError) {
-        console.log(`  ⚠ Error: ${result.response.error}`);
-      } else {
+        completed++;
         console.log(
-          `  ✓ ${result.response.latencyMs}ms, ${result.response.tokenCount} tokens`
+          `[${completed}/${pendingCount}] "${query.query.substring(0, 40)}..." → ${config.id}${trial ? ` (trial ${trial})` : ""}`
         );
-      }
-    }
+        if (result.hasError) {
+          console.log(
+            `  ⚠ Error (${result.response.errorType ?? "unknown"}): ${result.response.error}`
+          );
+        } else {
+          console.log(
+            `  ✓ ${result.response.latencyMs}ms, ${result.response.tokenCount} tokens`
+          );
+        }
+      })
+    );
+  }
+
+  // Keep checkpointed results that are no longer part of the plan
+  // (e.g. a config was removed) rather than discarding paid calls
+  if (checkpointed.size > 0) {
+    console.log(
+      `Keeping ${checkpointed.size} checkpointed results that are not in the current plan`
+    );
+    results.push(...checkpointed.values());
   }
 
   return {
     id: runId,
     executedAt: now.toISOString(),
+    pricingVersion: pricing.version,
+    repeat: repeat > 1 ? repeat : undefined,
+    seed,
     results,
   };
 }
 
 /**
  * Save run results to a JSON file
+ * @param resultsDir - Directory to write to; defaults to results/
  */
-export async function saveResults(runResult: RunResult): Promise<string> {
-  const resultsDir = join(projectRoot, "results");
-
+export async function saveResults(
+  runResult: RunResult,
+  resultsDir = join(projectRoot, "results")
+): Promise<string> {
   // Ensure results directory exists
   await mkdir(resultsDir, { recursive: true });
 
@@ -275,9 +709,43 @@ export async function saveResults(runResult: RunResult): Promise<string> {
 
   await writeFile(filepath, JSON.stringify(runResult, null, 2), "utf-8");
 
+  // The consolidated file supersedes the incremental checkpoint beside it
+  await removeCheckpoint(runResult.id, resultsDir);
+
   return filepath;
 }
 
+/**
+ * Count errored results by error class, most frequent first
+ */
+function countErrorTypes(results: QueryResult[]): [SearchErrorType, number][] {
+  const counts = new Map<SearchErrorType, number>();
+  for (const result of results) {
+    if (!result.hasError) continue;
+    const errorType = result.response.errorType ?? "unknown";
+    counts.set(errorType, (counts.get(errorType) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Format error classes as a suffix, e.g. " (rate_limited: 2, server: 1)"
+ */
+function formatErrorTypes(results: QueryResult[]): string {
+  const counts = countErrorTypes(results);
+  if (counts.length === 0) return "";
+  return ` (${counts.map(([type, count]) => `${type}: ${count}`).join(", ")})`;
+}
+
+/**
+ * Format the estimated cost of results as a suffix, e.g. ", $0.0160"
+ */
+function formatCost(results: QueryResult[]): string {
+  const costs = results.map(resultCostUsd).filter((cost): cost is number => cost !== undefined);
+  if (costs.length === 0) return "";
+  return `, ${formatUsd(costs.reduce((sum, cost) => sum + cost, 0))}`;
+}
+
 /**
  * Print a summary of the run results
  */
@@ -296,6 +764,11 @@ export function printSummary(runResult: RunResult): void {
   console.log(`Successful: ${successCount}`);
   console.log(`Errors: ${errorCount}`);
 
+  const retriedCount = results.filter((r) => (r.response.attempts ?? 1) > 1).length;
+  if (retriedCount > 0) {
+    console.log(`Retried: ${retriedCount} results needed more than one attempt`);
+  }
+
   if (totalResults > 0) {
     // Calculate averages for successful results
     const successfulResults = results.filter((r) => !r.hasError);
@@ -311,6 +784,28 @@ export function printSummary(runResult: RunResult): void {
       console.log(`Average tokens: ${avgTokens.toFixed(0)}`);
     }
 
+    const costs = results.map(resultCostUsd);
+    const priced = costs.filter((cost): cost is number => cost !== undefined);
+    if (priced.length > 0) {
+      const totalCost = priced.reduce((sum, cost) => sum + cost, 0);
+      const queryCount = new Set(results.map((r) => r.queryId ?? queryIdFor(r))).size;
+      console.log(
+        `Estimated cost: ${formatUsd(totalCost)} total, ${formatUsd(totalCost / queryCount)} per query (pricing ${runResult.pricingVersion ?? pricing.version})`
+      );
+      if (priced.length < results.length) {
+        console.log(`  ${results.length - priced.length} results have no price and are not included`);
+      }
+    }
+
+    // Break errors down by class so flaky infrastructure stands out
+    if (errorCount > 0) {
+      console.log("");
+      console.log("Errors by class:");
+      for (const [errorType, count] of countErrorTypes(results)) {
+        console.log(`  ${errorType}: ${count}`);
+      }
+    }
+
     // Group by config
     console.log("");
     console.log("Results by config:");
@@ -324,7 +819,9 @@ export function printSummary(runResult: RunResult): void {
     for (const [configId, configResults] of byConfig) {
       const configErrors = configResults.filter((r) => r.hasError).length;
       const configSuccess = configResults.length - configErrors;
-      console.log(`  ${configId}: ${configSuccess}/${configResults.length} successful`);
+      console.log(
+        `  ${configId}: ${configSuccess}/${configResults.length} successful${formatCost(configResults)}${formatErrorTypes(configResults)}`
+      );
     }
 
     console.log("");
@@ -339,7 +836,36 @@ export function printSummary(runResult: RunResult): void {
     for (const [gateway, gatewayResults] of byGateway) {
       const gatewayErrors = gatewayResults.filter((r) => r.hasError).length;
       const gatewaySuccess = gatewayResults.length - gatewayErrors;
-      console.log(`  ${gateway}: ${gatewaySuccess}/${gatewayResults.length} successful`);
+      console.log(
+        `  ${gateway}: ${gatewaySuccess}/${gatewayResults.length} successful${formatErrorTypes(gatewayResults)}`
+      );
+    }
+  }
+
+  const stability = summarizeStability(results);
+  if (stability.length > 0) {
+    console.log("");
+    console.log(`Stability across ${runResult.repeat ?? "repeated"} trials:`);
+    const ms = (value: number | undefined): string => (value === undefined ? "–" : `${value.toFixed(0)}ms`);
+    for (const summary of stability) {
+      const jaccard = summary.urlJaccard === undefined ? "–" : summary.urlJaccard.toFixed(2);
+      console.log(
+        `  ${summary.configId}: p50 ${ms(summary.p50LatencyMs)}, p90 ${ms(summary.p90LatencyMs)}, p99 ${ms(summary.p99LatencyMs)}, ` +
+          `latency SD ${ms(summary.latencySD)}, URL Jaccard ${jaccard}`
+      );
+    }
+  }
+
+  const recency = summarizeRecency(results);
+  if (recency.length > 0) {
+    console.log("");
+    console.log("Recency (temporal queries):");
+    for (const summary of recency) {
+      const newest = formatHours(summary.medianNewestAgeHours);
+      console.log(
+        `  ${summary.configId}: ${(summary.freshShare * 100).toFixed(0)}% with a source newer than the event, ` +
+          (newest ? `newest source ${newest} old (median)` : "no dated sources")
+      );
     }
   }
 
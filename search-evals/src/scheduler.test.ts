@@ -0,0 +1,95 @@
+/**
+ * Scheduler tests: failed firings are retried while due, and the watch loop
+ * outlives failing checks
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { classifyFirings, loadState, planFirings, tick, watch, type SchedulerState } from "./scheduler.js";
+
+const hour = 60 * 60 * 1000;
+
+describe("classifyFirings", () => {
+  const now = new Date("2026-03-01T12:00:00.000Z");
+  // Fired at +1h, half an hour ago
+  const firings = planFirings(
+    [{ id: "q1", query: "Who won?", groundTruth: "", validFrom: "2026-03-01T10:30:00.000Z" }],
+    ["1h"]
+  );
+  const stateWith = (status: "done" | "missed" | "failed"): SchedulerState => ({
+    firings: { "q1@1h": { status, at: now.toISOString() } },
+  });
+
+  it("skips a firing that is done", () => {
+    assert.deepEqual(classifyFirings(firings, stateWith("done"), now, hour), { due: [], missed: [], upcoming: [] });
+  });
+
+  it("retries a failed firing while it is due", () => {
+    assert.deepEqual(classifyFirings(firings, stateWith("failed"), now, hour).due, firings);
+  });
+
+  it("gives up on a failed firing once it is too late", () => {
+    assert.deepEqual(classifyFirings(firings, stateWith("failed"), now, hour / 4).missed, firings);
+  });
+});
+
+describe("tick", () => {
+  it("records a firing that produced no results as failed", async (t) => {
+    t.mock.method(console, "log", () => {});
+    t.mock.method(console, "warn", () => {});
+    const { mock } = t.mock.method(console, "error", () => {});
+    const dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    try {
+      const queryFile = join(dir, "queries.json");
+      const validFrom = new Date(Date.now() - 90 * 60 * 1000).toISOString();
+      await writeFile(queryFile, JSON.stringify([{ id: "q1", query: "Who won?", groundTruth: "", validFrom }]), "utf-8");
+      const statePath = join(dir, "state.json");
+
+      // No configs, as when every config is missing its API key
+      await tick([], { queryFiles: [queryFile], statePath, offsets: ["1h"] });
+
+      const state = await loadState(statePath);
+      assert.equal(state.firings["q1@1h"]?.status, "failed");
+      assert.match(String(mock.calls[0]?.arguments[0]), /^✗ Firing \+1h failed, .*no results/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("watch", () => {
+  it("keeps checking after a tick throws", async (t) => {
+    const { mock } = t.mock.method(console, "error", () => {});
+    const dir = await mkdtemp(join(tmpdir(), "search-evals-"));
+    try {
+      // A query file saved halfway through an edit
+      const queryFile = join(dir, "queries.json");
+      await writeFile(queryFile, '[{ "query": "Who won?", ', "utf-8");
+      const options = { queryFiles: [queryFile], statePath: join(dir, "state.json") };
+
+      const controller = new AbortController();
+      let ticks = 0;
+      await watch(
+        async () => {
+          ticks++;
+          if (ticks === 1) return tick([], options);
+          if (ticks === 2) throw new Error("Firing state could not be saved");
+          controller.abort();
+        },
+        0,
+        controller.signal
+      );
+
+      assert.equal(ticks, 3);
+      const errors = mock.calls.map((call) => String(call.arguments[0]));
+      assert.equal(errors.length, 2);
+      assert.match(errors[0], /^✗ Check failed, trying again in 0s: /);
+      assert.equal(errors[1], "✗ Check failed, trying again in 0s: Firing state could not be saved");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Temporal Query Scheduler
+ *
+ * Watch mode for temporal queries: fires each query at fixed offsets after
+ * its window opens (validFrom + 1h, + 6h, + 24h by default), so every
+ * gateway is tested at the same delays after an event instead of whenever
+ * `npm run eval` happens to run. Each firing is saved as its own run, tagged
+ * with its offset. Fired (and missed) firings are kept in a state file, so
+ * the scheduler can be restarted without firing anything twice. A firing
+ * whose run failed is retried until it is too late.
+ */
+
+import "dotenv/config";
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join, dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import type { SearchConfig, SearchQuery, GatewayLimits, RunResult } from "./types.js";
+import { loadConfigs, defaultConcurrency, gatewayLimits } from "./configs.js";
+import { createRunId, runEvaluation, saveResults, printSummary } from "./runner.js";
+import { loadQueries } from "./queries.js";
+import { score } from "./scorer.js";
+import { validateConfigs } from "./gateways/index.js";
+import { queryIdFor } from "./utils/keys.js";
+import { selectConfigs } from "./utils/select.js";
+import { sleep } from "./utils/concurrency.js";
+import { parseDuration, parsePositiveInt } from "./utils/args.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+export interface SchedulerOptions {
+  /** Offsets after validFrom to fire at, e.g. ["1h", "6h", "24h"] */
+  offsets?: string[];
+  /** Skip a firing that is this late, in milliseconds */
+  maxLatenessMs?: number;
+  /** Where fired firings are recorded */
+  statePath?: string;
+  /** Query files to watch instead of queries/ */
+  queryFiles?: string[];
+  concurrency?: number;
+  gatewayLimits?: Record<string, GatewayLimits>;
+}
+
+const defaultSchedulerOptions = {
+  offsets: ["1h", "6h", "24h"],
+  maxLatenessMs: 60 * 60 * 1000,
+  statePath: join(projectRoot, "scheduler-state.json"),
+  intervalMs: 60 * 1000,
+};
+
+/**
+ * One temporal query at one offset after its validFrom
+ */
+export interface Firing {
+  queryId: string;
+  query: string;
+  offset: string;
+  offsetMs: number;
+  fireAt: Date;
+  /** End of the query's window; null when open */
+  validUntil: Date | null;
+}
+
+export type FiringStatus = "done" | "missed" | "failed";
+
+interface FiringRecord {
+  status: FiringStatus;
+  /** When the firing was handled */
+  at: string;
+  runId?: string;
+  error?: string;
+}
+
+/**
+ * Scheduler state: every handled firing by key ("<queryId>@<offset>")
+ */
+export interface SchedulerState {
+  firings: Record<string, FiringRecord>;
+}
+
+function firingKey(firing: Pick<Firing, "queryId" | "offset">): string {
+  return `${firing.queryId}@${firing.offset}`;
+}
+
+/**
+ * Load the scheduler state; a missing file is an empty state
+ */
+export async function loadState(path: string): Promise<SchedulerState> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as SchedulerState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { firings: {} };
+    throw error;
+  }
+}
+
+async function saveState(path: string, state: SchedulerState): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(state, null, 2), "utf-8");
+}
+
+/**
+ * Every firing of every temporal query, in time order. Offsets that fall
+ * after a query's window has closed are left out.
+ */
+export function planFirings(queries: SearchQuery[], offsets: string[]): Firing[] {
+  const firings: Firing[] = [];
+  for (const query of queries) {
+    if (!query || typeof query.query !== "string" || !query.validFrom) continue;
+    const validFrom = Date.parse(query.validFrom);
+    const validUntil = query.validUntil ? new Date(query.validUntil) : null;
+    if (Number.isNaN(validFrom)) continue;
+
+    for (const offset of offsets) {
+      const offsetMs = parseDuration(offset, "offsets");
+      const fireAt = new Date(validFrom + offsetMs);
+      if (validUntil && fireAt > validUntil) continue;
+      firings.push({ queryId: queryIdFor(query), query: query.query, offset, offsetMs, fireAt, validUntil });
+    }
+  }
+  return firings.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+}
+
+/**
+ * Split firings not yet handled into due (time reached, not too late, window
+ * still open), missed (too late or the window closed) and upcoming. Failed
+ * firings count as not yet handled, so they are retried while still due.
+ */
+export function classifyFirings(
+  firings: Firing[],
+  state: SchedulerState,
+  now: Date,
+  maxLatenessMs = defaultSchedulerOptions.maxLatenessMs
+): { due: Firing[]; missed: Firing[]; upcoming: Firing[] } {
+  const due: Firing[] = [];
+  const missed: Firing[] = [];
+  const upcoming: Firing[] = [];
+
+  for (const firing of firings) {
+    const record = state.firings[firingKey(firing)];
+    if (record && record.status !== "failed") continue;
+    const lateness = now.getTime() - firing.fireAt.getTime();
+    if (lateness < 0) {
+      upcoming.push(firing);
+    } else if (lateness > maxLatenessMs || (firing.validUntil && now > firing.validUntil)) {
+      missed.push(firing);
+    } else {
+      due.push(firing);
+    }
+  }
+
+  return { due, missed, upcoming };
+}
+
+/**
+ * Group firings by offset, keeping offset order
+ */
+function groupByOffset(firings: Firing[]): Map<string, Firing[]> {
+  const groups = new Map<string, Firing[]>();
+  for (const firing of firings) {
+    groups.set(firing.offset, [...(groups.get(firing.offset) ?? []), firing]);
+  }
+  return groups;
+}
+
+/**
+ * Check the query files once and fire whatever is due: one run per offset,
+ * covering every query due at that offset
+ */
+export async function tick(configs: SearchConfig[], options: SchedulerOptions = {}): Promise<void> {
+  const offsets = options.offsets ?? defaultSchedulerOptions.offsets;
+  const statePath = options.statePath ?? defaultSchedulerOptions.statePath;
+  const state = await loadState(statePath);
+
+  // Re-read the queries every time so newly added windows are picked up
+  const queries = (await loadQueries(options.queryFiles)).map((loaded) => loaded.query);
+  const { due, missed } = classifyFirings(
+    planFirings(queries, offsets),
+    state,
+    new Date(),
+    options.maxLatenessMs
+  );
+
+  if (missed.length > 0) {
+    console.warn(`⚠ Skipping ${missed.length} firings that are too late or whose window closed`);
+    const at = new Date().toISOString();
+    for (const firing of missed) {
+      // A failed firing that ran out of time keeps its last error
+      const { runId, error } = state.firings[firingKey(firing)] ?? {};
+      state.firings[firingKey(firing)] = { status: "missed", at, runId, error };
+    }
+    await saveState(statePath, state);
+  }
+
+  for (const [offset, firings] of groupByOffset(due)) {
+    const runId = createRunId(new Date());
+    const queryIds = [...new Set(firings.map((firing) => firing.queryId))];
+    console.log("");
+    console.log(`Firing +${offset} for ${queryIds.length} queries as run ${runId}`);
+
+    let record: FiringRecord;
+    try {
+      const { results, ...run } = await runEvaluation(configs, {
+        runId,
+        selection: { queryFiles: options.queryFiles, queryIds },
+        concurrency: options.concurrency,
+        gatewayLimits: options.gatewayLimits,
+      });
+      if (results.length === 0) {
+        throw new Error("The run produced no results; no config was runnable");
+      }
+      const runResult: RunResult = {
+        ...run,
+        schedule: { offset, offsetMs: firings[0].offsetMs, queryIds },
+        results,
+      };
+
+      const filepath = await saveResults(runResult);
+      console.log(`Results saved to: ${filepath}`);
+      printSummary(runResult);
+      await score(filepath);
+      record = { status: "done", at: new Date().toISOString(), runId };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Firing +${offset} failed, retrying at the next check while it is due: ${message}`);
+      record = { status: "failed", at: new Date().toISOString(), runId, error: message };
+    }
+
+    for (const firing of firings) {
+      state.firings[firingKey(firing)] = record;
+    }
+    await saveState(statePath, state);
+  }
+}
+
+/**
+ * Run a tick every interval until the signal aborts. A tick that throws
+ * (e.g. a query file caught mid-edit) is logged and the next one runs on
+ * schedule, so one bad check doesn't stop the scheduler.
+ */
+export async function watch(
+  runTick: () => Promise<void>,
+  intervalMs: number,
+  signal?: AbortSignal
+): Promise<void> {
+  while (!signal?.aborted) {
+    try {
+      await runTick();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Check failed, trying again in ${intervalMs / 1000}s: ${message}`);
+    }
+    if (signal?.aborted) break;
+    await sleep(intervalMs);
+  }
+}
+
+/**
+ * Print the firings a tick would handle now and the next ones coming up
+ */
+async function printSchedule(options: SchedulerOptions): Promise<void> {
+  const offsets = options.offsets ?? defaultSchedulerOptions.offsets;
+  const state = await loadState(options.statePath ?? defaultSchedulerOptions.statePath);
+  const queries = (await loadQueries(options.queryFiles)).map((loaded) => loaded.query);
+  const { due, missed, upcoming } = classifyFirings(
+    planFirings(queries, offsets),
+    state,
+    new Date(),
+    options.maxLatenessMs
+  );
+
+  const line = (firing: Firing): string =>
+    `  ${firing.fireAt.toISOString()} +${firing.offset} ${firing.queryId} "${firing.query.substring(0, 60)}"`;
+
+  console.log(`Due now (${due.length}):`);
+  due.forEach((firing) => console.log(line(firing)));
+  console.log(`Upcoming (${upcoming.length}):`);
+  upcoming.slice(0, 20).forEach((firing) => console.log(line(firing)));
+  if (upcoming.length > 20) {
+    console.log(`  ...and ${upcoming.length - 20} more`);
+  }
+  console.log(`Too late or window closed: ${missed.length}`);
+  const handled = Object.values(state.firings).filter((record) => record.status !== "failed");
+  console.log(`Already handled: ${handled.length}`);
+}
+
+/**
+ * Main function for standalone execution
+ */
+async function main(): Promise<void> {
+  const { values: args } = parseArgs({
+    options: {
+      offsets: { type: "string" },
+      interval: { type: "string" },
+      "max-lateness": { type: "string" },
+      state: { type: "string" },
+      once: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      "config-file": { type: "string", multiple: true },
+      config: { type: "string", multiple: true },
+      gateway: { type: "string", multiple: true },
+      "query-file": { type: "string", multiple: true },
+      concurrency: { type: "string" },
+    },
+  });
+
+  const offsets = args.offsets?.split(",").map((offset) => offset.trim().replace(/^\+/, ""));
+  offsets?.forEach((offset) => parseDuration(offset, "offsets"));
+  const intervalMs = args.interval
+    ? parseDuration(args.interval, "interval")
+    : defaultSchedulerOptions.intervalMs;
+  const options: SchedulerOptions = {
+    offsets,
+    maxLatenessMs: args["max-lateness"] ? parseDuration(args["max-lateness"], "max-lateness") : undefined,
+    statePath: args.state ? resolve(args.state) : undefined,
+    queryFiles: args["query-file"]?.map((file) => resolve(file)),
+    concurrency: parsePositiveInt(args.concurrency, "concurrency") ?? defaultConcurrency,
+    gatewayLimits,
+  };
+
+  if (args["dry-run"]) {
+    await printSchedule(options);
+    return;
+  }
+
+  const configs = selectConfigs(
+    await loadConfigs(args["config-file"]?.map((file) => resolve(file))),
+    args.config,
+    args.gateway
+  );
+  validateConfigs(configs);
+
+  // Handled firings are saved after each run; one cut short fires again on restart
+  process.once("SIGINT", () => {
+    console.log("");
+    console.log("Scheduler stopped.");
+    process.exit(130);
+  });
+
+  console.log(
+    `Watching temporal queries at +${(options.offsets ?? defaultSchedulerOptions.offsets).join(", +")} after validFrom` +
+      (args.once ? "" : `, checking every ${intervalMs / 1000}s`)
+  );
+  if (args.once) {
+    await tick(configs, options);
+  } else {
+    await watch(() => tick(configs, options), intervalMs);
+  }
+}
+
+// Only run main() when executed directly, not when imported
+const isMainModule = process.argv[1]?.endsWith("scheduler.js");
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Error in scheduler:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Scorer tests: text folding and fact matching
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { QueryResult } from "./types.js";
+import { normalizeText, extractFacts, containsFact, checkFact, scoreResult } from "./scorer.js";
+
+describe("normalizeText", () => {
+  it("strips markdown emphasis, diacritics and thousands separators", () => {
+    assert.equal(
+      normalizeText("**Atlético** won *La Liga* with __95__ points before 70,000 fans"),
+      "atletico won la liga with 95 points before 70000 fans"
+    );
+  });
+
+  it("keeps underscores inside identifiers and URLs", () => {
+    assert.equal(
+      normalizeText("Set `time_range` in snake_case, see https://example.com/la_liga_2024"),
+      "set `time_range` in snake_case, see https://example.com/la_liga_2024"
+    );
+    assert.equal(normalizeText("_**time_range**_"), "time_range");
+  });
+});
+
+describe("fact matching", () => {
+  const text = normalizeText("Pass time_range=week to the API; Real Madrid won 3-1.");
+
+  it("matches an identifier with underscores as a whole word", () => {
+    assert.equal(checkFact(text, { fact: "time_range" }), true);
+    assert.equal(checkFact(text, { fact: "timerange" }), false);
+    assert.equal(checkFact(text, { fact: "range" }), false);
+  });
+
+  it("finds extracted facts in the folded text", () => {
+    const facts = extractFacts("Real Madrid won 3-1");
+    assert.ok(facts.length > 0);
+    assert.ok(facts.every((fact) => containsFact(text, fact)));
+  });
+});
+
+describe("scoreResult", () => {
+  it("credits an expected identifier in a markdown answer", () => {
+    const result: QueryResult = {
+      queryId: "q1",
+      query: "Which parameter limits results by date?",
+      groundTruth: "time_range",
+      facts: [{ fact: "time_range" }],
+      configId: "mock-ok",
+      gateway: "mock",
+      parameters: {},
+      executedAt: "2026-03-01T12:00:00.000Z",
+      response: { data: {}, results: [], answer: "Use the **time_range** parameter.", latencyMs: 10, tokenCount: 5 },
+      hasError: false,
+    };
+
+    assert.equal(scoreResult(result)?.coverage, 1);
+  });
+});
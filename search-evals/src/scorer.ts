@@ -0,0 +1,451 @@
+/**
+ * Rule-Based Ground Truth Scorer
+ *
+ * A cheap, deterministic alternative to the LLM judge. Extracts key facts
+ * (entities, numbers, scores, seasons, dates) from each result's ground
+ * truth, normalizes them and the gateway's text content, and reports which
+ * facts appear. Queries with structured facts are checked against those
+ * instead (alternative phrasings, numbers within a tolerance) along with
+ * their mustNotContain contradictions. Reads results from results/, writes
+ * to scores/.
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join, dirname, basename, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import type {
+  FactCheck,
+  FactKind,
+  GroundTruthFact,
+  QueryResult,
+  RunResult,
+  ScoreRecord,
+} from "./types.js";
+import { getResponseText } from "./gateways/index.js";
+import { findLatestResultsFile } from "./evaluator.js";
+import { queryIdFor, resultKeyFor } from "./utils/keys.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+/**
+ * A fact extracted from ground truth, with the normalized phrasings that count
+ * as a match
+ */
+export interface ExtractedFact {
+  kind: FactKind;
+  text: string;
+  patterns: string[];
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const MONTH_PATTERN =
+  "(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)\\.?";
+
+/** Unit abbreviations accepted in place of the spelled-out unit */
+const UNIT_ALIASES: Record<string, string[]> = {
+  point: ["pts", "pt"],
+  minute: ["min", "mins"],
+  second: ["sec", "secs"],
+  kilometer: ["km"],
+  kilometre: ["km"],
+  meter: ["m"],
+  metre: ["m"],
+  percent: ["%", "per cent"],
+};
+
+/** Capitalized words that start sentences rather than name things */
+const NON_ENTITY_WORDS = new Set([
+  "a", "an", "the", "they", "he", "she", "it", "we", "in", "on", "at", "as",
+  "this", "that", "these", "those", "their", "his", "her", "its", "after",
+  "before", "with", "during", "for", "by", "from", "and", "but", "under",
+  "over", "yes", "no", "there", "then", "when", "while", "last",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  ...MONTHS,
+]);
+
+/** Lowercase words allowed inside a multi-word name, e.g. "Atletico de Madrid" */
+const ENTITY_CONNECTORS = new Set(["de", "del", "la", "y", "&"]);
+
+/** Words that follow a number without being its unit ("95 or", "2 in") */
+const NON_UNIT_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "by", "for", "from", "in", "is", "of",
+  "on", "or", "the", "to", "was", "were", "with",
+]);
+
+/**
+ * Fold text to a comparable form while keeping case: strips diacritics and
+ * markdown emphasis, unifies dashes, quotes and whitespace, removes thousands
+ * separators and tightens "2 - 0" to "2-0". Emphasis markers are only
+ * stripped at word boundaries, so identifiers like time_range keep theirs.
+ */
+function foldText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .replace(/[\u2010-\u2015\u2212]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/(?<![\p{L}\p{N}*_])[*_]+|[*_]+(?![\p{L}\p{N}*_])/gu, "")
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/(\d)\s*-\s*(\d)/g, "$1-$2")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalize text for matching: folded and lowercased
+ */
+export function normalizeText(text: string): string {
+  return foldText(text).toLowerCase();
+}
+
+/**
+ * Extract the key facts from a ground truth statement
+ */
+export function extractFacts(groundTruth: string): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+  // Matched spans are blanked out so later extractors don't reuse them
+  let remaining = foldText(groundTruth);
+
+  const take = (
+    pattern: RegExp,
+    toFact: (match: RegExpExecArray) => ExtractedFact | null
+  ): void => {
+    remaining = remaining.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpExecArray;
+      const fact = toFact(match);
+      if (!fact) return match[0];
+      facts.push(fact);
+      return " ".repeat(match[0].length);
+    });
+  };
+
+  // Seasons: 2023-24, 2023/2024
+  take(/\b(\d{4})[-/](\d{2}|\d{4})\b/g, (m) => {
+    const start = m[1];
+    const endLong = m[2].length === 2 ? `${start.slice(0, 2)}${m[2]}` : m[2];
+    const endShort = endLong.slice(2);
+    if (Number(endLong) !== Number(start) + 1) return null;
+    return {
+      kind: "season",
+      text: m[0],
+      patterns: [
+        `${start}-${endShort}`,
+        `${start}/${endShort}`,
+        `${start}-${endLong}`,
+        `${start}/${endLong}`,
+      ],
+    };
+  });
+
+  // ISO dates: 2026-01-24
+  take(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (m) =>
+    dateFact(m[0], Number(m[1]), Number(m[2]), Number(m[3]))
+  );
+
+  // Month-first dates: January 24, 2026 / Jan 24
+  take(
+    new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, "g"),
+    (m) => dateFact(m[0], m[3] ? Number(m[3]) : undefined, monthNumber(m[1]), Number(m[2]))
+  );
+
+  // Day-first dates: 24 January 2026
+  take(
+    new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?\\b`, "g"),
+    (m) => dateFact(m[0], m[3] ? Number(m[3]) : undefined, monthNumber(m[2]), Number(m[1]))
+  );
+
+  // Match scores: 2-0, 3:1 (either orientation, as reports differ on home/away)
+  take(/\b(\d{1,2})[-:](\d{1,2})\b/g, (m) => ({
+    kind: "score",
+    text: m[0],
+    patterns: unique([
+      `${m[1]}-${m[2]}`,
+      `${m[1]}:${m[2]}`,
+      `${m[2]}-${m[1]}`,
+      `${m[2]}:${m[1]}`,
+    ]),
+  }));
+
+  // Percentages: 95%, 95 percent
+  take(/\b(\d+(?:\.\d+)?)\s*(?:%|percent\b|per cent\b)/g, (m) => ({
+    kind: "number",
+    text: m[0],
+    patterns: [`${m[1]}%`, `${m[1]} %`, `${m[1]} percent`, `${m[1]} per cent`],
+  }));
+
+  // Numbers with a unit: 95 points, 3 goals
+  take(/\b(\d+(?:\.\d+)?)[ -]([a-z]+)\b/g, (m) => {
+    if (NON_UNIT_WORDS.has(m[2])) return null;
+    const singular = m[2].replace(/s$/, "");
+    const aliases = UNIT_ALIASES[singular] ?? [];
+    return {
+      kind: "number",
+      text: m[0],
+      patterns: unique([
+        `${m[1]} ${m[2]}`,
+        `${m[1]} ${singular}`,
+        `${m[1]}-${singular}`,
+        ...aliases.flatMap((alias) => [`${m[1]} ${alias}`, `${m[1]}${alias}`]),
+      ]),
+    };
+  });
+
+  // Other numbers with at least two digits: years, ordinals, counts
+  take(/\b(\d{2,}(?:\.\d+)?(?:st|nd|rd|th)?)\b/g, (m) => ({
+    kind: "number",
+    text: m[0],
+    patterns: [m[1].toLowerCase()],
+  }));
+
+  // Named entities: runs of capitalized words, e.g. "Real Madrid", "La Liga"
+  for (const entity of extractEntities(remaining)) {
+    const lower = entity.toLowerCase();
+    facts.push({
+      kind: "entity",
+      text: entity,
+      patterns: unique([lower, lower.replace(/^the /, "")]),
+    });
+  }
+
+  // Drop duplicates, keeping the first occurrence
+  const seen = new Set<string>();
+  return facts.filter((fact) => {
+    const id = `${fact.kind}:${fact.patterns[0]}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+function extractEntities(text: string): string[] {
+  const entities: string[] = [];
+  let current: string[] = [];
+
+  const flush = (): void => {
+    // Trailing connectors ("Real Madrid of") aren't part of the name
+    while (current.length > 0 && ENTITY_CONNECTORS.has(current[current.length - 1])) {
+      current.pop();
+    }
+    // Sentence-initial words ("The", "They") aren't either
+    while (current.length > 0 && NON_ENTITY_WORDS.has(current[0].toLowerCase())) {
+      current.shift();
+    }
+    if (current.length > 0) {
+      entities.push(current.join(" "));
+    }
+    current = [];
+  };
+
+  for (const raw of text.split(/\s+/)) {
+    const word = raw.replace(/^["'(]+|["'),.;:!?]+$/g, "");
+    const endsClause = /[,.;:!?)]$/.test(raw);
+
+    if (/^\p{Lu}[\p{L}\p{N}'.&-]*$/u.test(word)) {
+      current.push(word);
+    } else if (current.length > 0 && ENTITY_CONNECTORS.has(word)) {
+      current.push(word);
+    } else {
+      flush();
+    }
+
+    if (endsClause) flush();
+  }
+  flush();
+
+  return entities;
+}
+
+function dateFact(
+  text: string,
+  year: number | undefined,
+  month: number,
+  day: number
+): ExtractedFact | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const name = MONTHS[month - 1];
+  const short = name.slice(0, 3);
+  const patterns = [`${name} ${day}`, `${day} ${name}`, `${short} ${day}`, `${day} ${short}`];
+  if (year !== undefined) {
+    const mm = String(month).padStart(2, "0");
+    const dd = String(day).padStart(2, "0");
+    patterns.push(`${year}-${mm}-${dd}`, `${dd}.${mm}.${year}`, `${dd}/${mm}/${year}`);
+  }
+
+  return { kind: "date", text, patterns: unique(patterns) };
+}
+
+function monthNumber(name: string): number {
+  const prefix = name.toLowerCase().slice(0, 3);
+  return MONTHS.findIndex((month) => month.startsWith(prefix)) + 1;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether a normalized text contains any phrasing of a fact as whole words
+ * (an underscore joins words, so "range" is not found in "time_range")
+ */
+export function containsFact(normalizedText: string, fact: ExtractedFact): boolean {
+  return fact.patterns.some((pattern) => {
+    // "Jan 24" should also match "Jan. 24"
+    const body = escapeRegExp(pattern).replace(/^([a-z]{3}) /, "$1\\.? ");
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, "u").test(
+      normalizedText
+    );
+  });
+}
+
+/**
+ * Whether a normalized text contains a phrase as whole words
+ */
+function containsPhrase(normalizedText: string, phrase: string): boolean {
+  return containsFact(normalizedText, { kind: "required", text: phrase, patterns: [normalizeText(phrase)] });
+}
+
+/**
+ * Whether a normalized text mentions a number within the fact's tolerance,
+ * followed by one of its units when it has any
+ */
+function containsValue(normalizedText: string, fact: GroundTruthFact): boolean {
+  if (fact.value === undefined) return false;
+  const tolerance = fact.tolerance ?? 0;
+  const units = (fact.units ?? []).map(normalizeText);
+
+  for (const match of normalizedText.matchAll(/(?<![\p{L}\p{N}.])(-?\d+(?:\.\d+)?)(?![\p{N}])\s*(%|[\p{L}]+)?/gu)) {
+    if (Math.abs(Number(match[1]) - fact.value) > tolerance) continue;
+    if (units.length === 0 || units.includes(match[2] ?? "")) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether a normalized text states a structured fact: its phrasing, an
+ * alternative, or a matching number
+ */
+export function checkFact(normalizedText: string, fact: GroundTruthFact): boolean {
+  return (
+    [fact.fact, ...(fact.alternatives ?? [])].some((phrase) => containsPhrase(normalizedText, phrase)) ||
+    containsValue(normalizedText, fact)
+  );
+}
+
+/**
+ * The mustNotContain phrases a normalized text contains
+ */
+export function findContradictions(normalizedText: string, phrases: string[] = []): string[] {
+  return phrases.filter((phrase) => containsPhrase(normalizedText, phrase));
+}
+
+/**
+ * Score one result against its ground truth
+ */
+export function scoreResult(result: QueryResult): ScoreRecord | null {
+  if (!result.groundTruth || result.hasError) return null;
+
+  const text = normalizeText(getResponseText(result));
+  const checks: FactCheck[] = result.facts
+    ? result.facts.map((fact) => ({ fact: fact.fact, kind: "required", found: checkFact(text, fact) }))
+    : extractFacts(result.groundTruth).map((fact) => ({
+        fact: fact.text,
+        kind: fact.kind,
+        found: containsFact(text, fact),
+      }));
+  const found = checks.filter((check) => check.found).length;
+  const contradictions = findContradictions(text, result.mustNotContain);
+
+  return {
+    key: resultKeyFor(result),
+    queryId: result.queryId ?? queryIdFor(result),
+    configId: result.configId,
+    gateway: result.gateway,
+    query: result.query,
+    groundTruth: result.groundTruth,
+    coverage: checks.length > 0 ? found / checks.length : 0,
+    found,
+    total: checks.length,
+    facts: checks,
+    contradictions: contradictions.length > 0 ? contradictions : undefined,
+  };
+}
+
+/**
+ * Score every result in a results file and write scores/<results filename>
+ */
+export async function score(resultsPath: string): Promise<string> {
+  const runResult = JSON.parse(await readFile(resultsPath, "utf-8")) as RunResult;
+
+  const records = runResult.results
+    .map(scoreResult)
+    .filter((record): record is ScoreRecord => record !== null);
+
+  const scoresDir = join(projectRoot, "scores");
+  await mkdir(scoresDir, { recursive: true });
+  const scorePath = join(scoresDir, basename(resultsPath));
+  await writeFile(scorePath, JSON.stringify(records, null, 2), "utf-8");
+
+  printScoreSummary(records);
+  console.log(`Scores written to: ${scorePath}`);
+
+  return scorePath;
+}
+
+/**
+ * Print mean fact coverage per config
+ */
+function printScoreSummary(records: ScoreRecord[]): void {
+  console.log("");
+  console.log("Ground truth coverage by config:");
+
+  const byConfig = new Map<string, ScoreRecord[]>();
+  for (const record of records) {
+    const existing = byConfig.get(record.configId) || [];
+    existing.push(record);
+    byConfig.set(record.configId, existing);
+  }
+
+  for (const [configId, configRecords] of byConfig) {
+    const meanCoverage =
+      configRecords.reduce((sum, r) => sum + r.coverage, 0) / configRecords.length;
+    const complete = configRecords.filter(
+      (r) => r.total > 0 && r.found === r.total && !r.contradictions
+    ).length;
+    const contradicted = configRecords.filter((r) => r.contradictions).length;
+    console.log(
+      `  ${configId}: ${(meanCoverage * 100).toFixed(0)}% of facts found, ${complete}/${configRecords.length} complete` +
+        (contradicted > 0 ? `, ${contradicted} contradicted` : "")
+    );
+  }
+}
+
+/**
+ * Main function for standalone execution
+ */
+async function main(): Promise<void> {
+  const fileArg = process.argv[2];
+  const resultsPath = fileArg ? resolve(fileArg) : await findLatestResultsFile();
+
+  console.log(`Scoring: ${resultsPath}`);
+  await score(resultsPath);
+}
+
+// Only run main() when executed directly, not when imported
+const isMainModule = process.argv[1]?.endsWith("scorer.js");
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Error during scoring:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Trial Stability
+ *
+ * For runs that repeat each query × config pair (`--repeat`), measures how
+ * much a config varies between trials of the same pair: the spread of judge
+ * scores and latencies, the latency distribution over every trial, and how
+ * much the returned URL sets overlap (Jaccard similarity).
+ */
+
+import type { QueryResult } from "./types.js";
+import { getNormalizedResponse } from "./gateways/index.js";
+import { queryIdFor } from "./utils/keys.js";
+import { mean, percentile, standardDeviation } from "./utils/stats.js";
+
+/**
+ * Trial-to-trial variation of one config
+ */
+export interface StabilitySummary {
+  configId: string;
+  gateway: string;
+  /** Query × config pairs with more than one trial */
+  pairs: number;
+  /** Trials across those pairs, including failed ones */
+  trials: number;
+  /** Share of trials that failed */
+  errorRate: number;
+  /** Mean over pairs of the judge score standard deviation across trials */
+  scoreSD?: number;
+  /** Mean over pairs of the latency standard deviation across trials */
+  latencySD?: number;
+  p50LatencyMs?: number;
+  p90LatencyMs?: number;
+  p99LatencyMs?: number;
+  /** Mean Jaccard similarity of the URL sets of every two trials of a pair */
+  urlJaccard?: number;
+}
+
+/**
+ * Jaccard similarity of two sets; two empty sets are identical
+ */
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Mean Jaccard similarity over every two of the given sets
+ */
+function meanPairwiseJaccard<T>(sets: Set<T>[]): number | undefined {
+  const similarities: number[] = [];
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i + 1; j < sets.length; j++) {
+      similarities.push(jaccard(sets[i], sets[j]));
+    }
+  }
+  return mean(similarities);
+}
+
+function definedValues(values: (number | undefined)[]): number[] {
+  return values.filter((value): value is number => value !== undefined);
+}
+
+/**
+ * Aggregate trial stability per config, in first-seen order. Only pairs
+ * with more than one trial count; configs without any are left out.
+ * @param scoreFor - Judge score of a result, when it was judged
+ */
+export function summarizeStability(
+  results: QueryResult[],
+  scoreFor: (result: QueryResult) => number | undefined = () => undefined
+): StabilitySummary[] {
+  // Trials per config, by query id
+  const byConfig = new Map<string, Map<string, QueryResult[]>>();
+  for (const result of results) {
+    if (result.trial === undefined) continue;
+    const byQuery = byConfig.get(result.configId) ?? new Map<string, QueryResult[]>();
+    const queryId = result.queryId ?? queryIdFor(result);
+    byQuery.set(queryId, [...(byQuery.get(queryId) ?? []), result]);
+    byConfig.set(result.configId, byQuery);
+  }
+
+  const summaries: StabilitySummary[] = [];
+  for (const [configId, byQuery] of byConfig) {
+    const pairs = [...byQuery.values()].filter((trials) => trials.length > 1);
+    if (pairs.length === 0) continue;
+
+    const trials = pairs.flat();
+    const succeededPairs = pairs.map((pair) => pair.filter((result) => !result.hasError));
+    const latencies = succeededPairs.flat().map((result) => result.response.latencyMs);
+
+    summaries.push({
+      configId,
+      gateway: trials[0].gateway,
+      pairs: pairs.length,
+      trials: trials.length,
+      errorRate: trials.filter((result) => result.hasError).length / trials.length,
+      scoreSD: mean(definedValues(pairs.map((pair) => standardDeviation(definedValues(pair.map(scoreFor)))))),
+      latencySD: mean(
+        definedValues(
+          succeededPairs.map((pair) => standardDeviation(pair.map((result) => result.response.latencyMs)))
+        )
+      ),
+      p50LatencyMs: percentile(latencies, 50),
+      p90LatencyMs: percentile(latencies, 90),
+      p99LatencyMs: percentile(latencies, 99),
+      urlJaccard: mean(
+        definedValues(
+          succeededPairs.map((pair) =>
+            meanPairwiseJaccard(
+              pair.map((result) => new Set(getNormalizedResponse(result).results.map((item) => item.url)))
+            )
+          )
+        )
+      ),
+    });
+  }
+
+  return summaries;
+}
@@ -1,47 +1,412 @@
+export type QueryDifficulty = "easy" | "medium" | "hard";
+
+/**
+ * One fact a correct answer must contain, for per-fact credit
+ */
+export interface GroundTruthFact {
+  /** Canonical phrasing, shown in reports */
+  fact: string;
+  /** Other phrasings that also count, e.g. "Los Blancos" for "Real Madrid" */
+  alternatives?: string[];
+  /** Numeric facts: any number within `tolerance` of `value` counts */
+  value?: number;
+  /** Absolute tolerance for `value` (default 0) */
+  tolerance?: number;
+  /** Units one of which must follow the number, e.g. ["points", "pts"]; any when omitted */
+  units?: string[];
+}
+
 export interface SearchQuery {
+  /** Stable id; derived from the query text and validFrom when omitted */
+  id?: string;
   query: string;
   groundTruth?: string;
+  /** Required facts within the ground truth; all must be present for full credit */
+  facts?: GroundTruthFact[];
+  /** Phrases that contradict the ground truth */
+  mustNotContain?: string[];
   validFrom?: string;
   validUntil?: string | null;
+  tags?: string[];
+  category?: string;
+  difficulty?: QueryDifficulty;
+  /** BCP 47 locale of the query, e.g. "es-ES" */
+  locale?: string;
 }
 
 export interface SearchConfig {
   id: string;
   gateway: string;
   parameters: Record<string, unknown>;
+  description?: string;
+  tags?: string[];
+  /** Gateway features this config depends on; configs for gateways lacking one are rejected */
+  requires?: GatewayFeature[];
+}
+
+export type GatewayFeature =
+  | "recency_filter"
+  | "domain_filter"
+  | "synthesized_answer"
+  | "country"
+  | "max_results";
+
+/**
+ * What the framework knows about a gateway besides its implementation
+ */
+export interface GatewayDescriptor {
+  /** Name used in configs, e.g. "gemini-search" */
+  name: string;
+  /** Human-readable provider name, e.g. "Gemini (Google Search grounding)" */
+  displayName: string;
+  /** Environment variables that must be set to call the gateway */
+  requiredEnv: string[];
+  /** Optional capabilities the gateway supports */
+  features: GatewayFeature[];
+  gateway: SearchGateway;
+}
+
+export type ParameterType = "string" | "number" | "integer" | "boolean" | "string[]";
+
+/**
+ * Declaration of one gateway parameter: its type, allowed values and default
+ */
+export interface ParameterSpec {
+  /** Accepted type, or several for parameters like `false | "markdown"` */
+  type: ParameterType | ParameterType[];
+  enum?: readonly (string | number | boolean)[];
+  /** Applied when the config doesn't set the parameter */
+  default?: unknown;
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+/**
+ * Parameter name → spec. Configs may only set declared parameters.
+ */
+export type ParameterSchema = Record<string, ParameterSpec>;
+
+/**
+ * Where an HTTP gateway sends its API key
+ */
+export interface HttpGatewayAuth {
+  /** Environment variable holding the key */
+  env: string;
+  /** Request header to send the key in, e.g. "X-Subscription-Token" */
+  header?: string;
+  /** Query string parameter to send the key in instead, e.g. "api_key" */
+  query?: string;
+  /** Prepended to the key, e.g. "Bearer " */
+  prefix?: string;
+}
+
+/**
+ * Where an HTTP gateway finds results in the JSON response. Paths are dotted
+ * with optional array indices ("web.results", "items[0].link"); url, title,
+ * snippet and date are relative to each result.
+ */
+export interface HttpResponseMapping {
+  results: string;
+  url: string;
+  title?: string;
+  snippet?: string;
+  date?: string;
+  /** Synthesized answer, relative to the response */
+  answer?: string;
+  /** Request id, relative to the response */
+  requestId?: string;
+}
+
+/**
+ * A search API called over plain HTTP, defined in a config file instead of
+ * a gateway class. The url, query and body may use `{{query}}` and
+ * `{{<parameter>}}` placeholders.
+ */
+export interface HttpGatewayDefinition {
+  name: string;
+  displayName?: string;
+  method?: "GET" | "POST";
+  url: string;
+  /** Fixed request headers */
+  headers?: Record<string, string>;
+  auth?: HttpGatewayAuth;
+  /** Query string template */
+  query?: Record<string, unknown>;
+  /** JSON body template, for POST */
+  body?: unknown;
+  /** Parameters configs may set, used by the placeholders */
+  parameters?: ParameterSchema;
+  features?: GatewayFeature[];
+  response: HttpResponseMapping;
+  timeoutMs?: number;
+}
+
+/**
+ * Where a call sits in the run; gateways that call an API ignore it
+ */
+export interface SearchContext {
+  /** Trial number (from 1) when the run repeats each query × config pair */
+  trial?: number;
 }
 
 export interface SearchGateway {
-  search(query: string, parameters: Record<string, unknown>): Promise<SearchResponse>;
+  /** Parameters this gateway accepts */
+  readonly parameterSchema: ParameterSchema;
+  search(query: string, parameters: Record<string, unknown>, context?: SearchContext): Promise<SearchResponse>;
+  normalize(data: unknown): NormalizedResponse;
+}
+
+export interface NormalizedResult {
+  rank: number;
+  url: string;
+  title?: string;
+  snippet?: string;
+  publishedDate?: string;
+  source?: string;
+}
+
+export interface NormalizedResponse {
+  results: NormalizedResult[];
+  answer?: string;
+}
+
+export type SearchErrorType =
+  | "rate_limited"
+  | "auth"
+  | "timeout"
+  | "server"
+  | "client"
+  | "parse"
+  | "unknown";
+
+/**
+ * Billed LLM tokens reported by gateways that run a model (e.g. Gemini)
+ */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 export interface SearchResponse {
   data: unknown;
+  results?: NormalizedResult[];
+  answer?: string;
   latencyMs: number;
   tokenCount: number;
+  usage?: TokenUsage;
   requestId?: string;
   error?: string;
+  errorType?: SearchErrorType;
+  statusCode?: number;
+  retryAfterMs?: number;
+  attempts?: number;
+}
+
+/**
+ * How fresh a temporal query's sources were relative to its event
+ * (`validFrom`) and to when the query ran
+ */
+export interface RecencyAnalysis {
+  /** Hours between validFrom and executedAt */
+  hoursSinceEvent: number;
+  /** Results returned */
+  sources: number;
+  /** Results with a parseable published/updated date */
+  datedSources: number;
+  /** Dated results published at or after validFrom */
+  freshSources: number;
+  /** Most recent published date among the results */
+  newestPublishedAt?: string;
+  /** Hours between the newest published date and executedAt */
+  newestAgeHours?: number;
 }
 
 export interface QueryResult {
+  queryId?: string;
   query: string;
   groundTruth?: string;
+  facts?: GroundTruthFact[];
+  mustNotContain?: string[];
   validFrom?: string;
   validUntil?: string | null;
+  tags?: string[];
+  category?: string;
+  difficulty?: QueryDifficulty;
+  locale?: string;
 
   configId: string;
   gateway: string;
   parameters: Record<string, unknown>;
+  /** Parameters after schema defaults were applied */
+  resolvedParameters?: Record<string, unknown>;
 
   executedAt: string;
+  /** Trial number (from 1) when the run repeats each query × config pair */
+  trial?: number;
+  /** Estimated USD cost of the call, from the pricing table */
+  costUsd?: number;
+  /** Source freshness, for temporal queries that succeeded */
+  recency?: RecencyAnalysis;
 
   response: SearchResponse;
 
   hasError: boolean;
 }
 
+export interface JudgeRequest {
+  prompt: string;
+  /** Name and JSON schema the response must follow */
+  schemaName: string;
+  schema: Record<string, unknown>;
+}
+
+export interface JudgeResponse {
+  /** JSON text following the requested schema */
+  output: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface Judge {
+  readonly name: string;
+  readonly model: string;
+  judge(request: JudgeRequest): Promise<JudgeResponse>;
+}
+
+export interface EvalRecord {
+  key: string;
+  queryId: string;
+  configId: string;
+  gateway: string;
+  query: string;
+  groundTruth: string;
+  latencyMs: number;
+  tokenCount: number;
+  score: number;
+  reasoning: string;
+  judge?: string;
+  judgeModel?: string;
+  /** Estimated USD cost of judging this result (its share of the batch) */
+  judgeCostUsd?: number;
+  /** Judge's per-fact credit, for queries with structured facts */
+  facts?: FactCredit[];
+  trial?: number;
+}
+
+export interface FactCredit {
+  fact: string;
+  found: boolean;
+}
+
+/** Kinds of facts extracted from free-text ground truth, or "required" for structured facts */
+export type FactKind = "entity" | "number" | "score" | "season" | "date" | "required";
+
+export interface FactCheck {
+  fact: string;
+  kind: FactKind;
+  found: boolean;
+}
+
+export interface ScoreRecord {
+  key: string;
+  queryId: string;
+  configId: string;
+  gateway: string;
+  query: string;
+  groundTruth: string;
+  coverage: number;
+  found: number;
+  total: number;
+  facts: FactCheck[];
+  /** mustNotContain phrases found in the response */
+  contradictions?: string[];
+}
+
+/**
+ * A scheduler firing: the temporal queries run at one offset after their
+ * windows opened
+ */
+export interface ScheduledRun {
+  /** Offset after validFrom, as configured (e.g. "6h") */
+  offset: string;
+  offsetMs: number;
+  queryIds: string[];
+}
+
 export interface RunResult {
   id: string;
   executedAt: string;
+  /** Version of the pricing table used for costUsd */
+  pricingVersion?: string;
+  /** Trials per query × config pair, when more than one */
+  repeat?: number;
+  /** Seed the query sample was drawn with, for runs with --sample */
+  seed?: number;
+  /** Set when the scheduler fired this run at an offset after validFrom */
+  schedule?: ScheduledRun;
   results: QueryResult[];
 }
+
+export interface GatewayLimits {
+  maxConcurrent?: number;
+  requestsPerSecond?: number;
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface QuerySelection {
+  /** Query files to load instead of the files in queries/ */
+  queryFiles?: string[];
+  /** Keep only queries with these ids */
+  queryIds?: string[];
+  /** Keep only queries whose text matches */
+  queryMatch?: RegExp;
+  /** Keep only the first N queries */
+  limit?: number;
+  /** Keep a random sample of N queries */
+  sample?: number;
+  /** Seed for the sample */
+  seed?: number;
+}
+
+export interface RunOptions {
+  concurrency?: number;
+  gatewayLimits?: Record<string, GatewayLimits>;
+  retry?: RetryOptions;
+  runId?: string;
+  resume?: boolean;
+  selection?: QuerySelection;
+  /** Trials per query × config pair (default 1) */
+  repeat?: number;
+  /** Pause between trial rounds, in milliseconds */
+  repeatDelayMs?: number;
+  /** Where the run's checkpoint is written (default results/) */
+  checkpointDir?: string;
+}
+
+export interface SkippedConfig {
+  config: SearchConfig;
+  missingEnv: string[];
+}
+
+export interface RunPlan {
+  runId: string;
+  /** Run time, used for temporal validity windows */
+  now: Date;
+  /** Configs that will run */
+  configs: SearchConfig[];
+  /** Configs skipped for missing API keys */
+  skippedConfigs: SkippedConfig[];
+  queries: SearchQuery[];
+  /** Query × config pairs in output order */
+  combinations: { query: SearchQuery; config: SearchConfig }[];
+  /** Trials per pair */
+  repeat: number;
+  /** Seed of the query sample, chosen at random when not given */
+  seed?: number;
+}
@@ -0,0 +1,90 @@
+/**
+ * Command-line argument helpers
+ */
+
+/**
+ * Parse an optional positive integer flag value
+ * @throws Error naming the flag if the value is not a positive integer
+ */
+export function parsePositiveInt(
+  value: string | undefined,
+  flag: string
+): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${flag} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an optional non-negative integer flag value
+ * @throws Error naming the flag if the value is not a non-negative integer
+ */
+export function parseNonNegativeInt(
+  value: string | undefined,
+  flag: string
+): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${flag} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an optional non-negative number flag value
+ * @throws Error naming the flag if the value is not a non-negative number
+ */
+export function parseNonNegativeNumber(
+  value: string | undefined,
+  flag: string
+): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${flag} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an optional integer flag value (e.g. a random seed)
+ * @throws Error naming the flag if the value is not an integer
+ */
+export function parseInteger(
+  value: string | undefined,
+  flag: string
+): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`--${flag} must be an integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "90s", "30m", "6h" or "1.5d" into milliseconds
+ * @throws Error naming the flag if the value is not a duration
+ */
+export function parseDuration(value: string, flag: string): number {
+  const match = value.trim().match(/^\+?(\d+(?:\.\d+)?)\s*([smhd])$/);
+  if (!match) {
+    throw new Error(`--${flag} must be a duration like 30m, 6h or 1d, got "${value}"`);
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2]];
+}
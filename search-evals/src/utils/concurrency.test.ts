@@ -0,0 +1,51 @@
+/**
+ * Limiter tests: slot counts and start rates
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Limiter, sleep } from "./concurrency.js";
+
+describe("Limiter", () => {
+  it("caps the tasks running at once", async () => {
+    const limiter = new Limiter({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.run(async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await sleep(10);
+          running--;
+        })
+      )
+    );
+
+    assert.equal(peak, 2);
+  });
+
+  it("spaces out starts that queued for another limiter's slot", async () => {
+    const gateway = new Limiter({ requestsPerSecond: 10 });
+    const global = new Limiter({ maxConcurrent: 3 });
+
+    // Other gateways hold every global slot for a while
+    const blockers = Array.from({ length: 3 }, () => global.run(() => sleep(300)));
+    await sleep(0);
+
+    const startedAt: number[] = [];
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        Limiter.runAll([gateway, global], async () => {
+          startedAt.push(Date.now());
+        })
+      )
+    );
+    await Promise.all(blockers);
+
+    for (let i = 1; i < startedAt.length; i++) {
+      assert.ok(startedAt[i] - startedAt[i - 1] >= 90, `starts ${startedAt.join(", ")} are less than 100ms apart`);
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Concurrency utilities - limits in-flight work and start rate
+ */
+
+export interface LimiterOptions {
+  /** Maximum number of tasks running at once (unbounded if omitted) */
+  maxConcurrent?: number;
+  /** Maximum number of task starts per second (unbounded if omitted) */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Limits how many tasks run at once and how quickly new tasks may start.
+ * Waiting tasks are started in the order they called `run()`.
+ */
+export class Limiter {
+  private readonly maxConcurrent: number;
+  private readonly minIntervalMs: number;
+  private active = 0;
+  private nextStartAt = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(options: LimiterOptions = {}) {
+    this.maxConcurrent = normalizeLimit(options.maxConcurrent);
+    const rps = normalizeLimit(options.requestsPerSecond);
+    this.minIntervalMs = Number.isFinite(rps) ? 1000 / rps : 0;
+  }
+
+  /**
+   * Run a task once a slot is free and the rate limit allows it
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    return Limiter.runAll([this], task);
+  }
+
+  /**
+   * Run a task once it holds a slot in every limiter (taken in the given
+   * order), then wait for each limiter's rate limit. The rate waits come last
+   * so a task that passed one never queues for another slot afterwards and
+   * starts in a burst with others when that slot frees up.
+   */
+  static async runAll<T>(limiters: Limiter[], task: () => Promise<T>): Promise<T> {
+    const held: Limiter[] = [];
+    try {
+      for (const limiter of limiters) {
+        await limiter.acquire();
+        held.push(limiter);
+      }
+      for (const limiter of limiters) {
+        await limiter.waitForRate();
+      }
+      return await task();
+    } finally {
+      for (const limiter of held.reverse()) {
+        limiter.release();
+      }
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by release(), so `active` is unchanged
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async waitForRate(): Promise<void> {
+    if (this.minIntervalMs === 0) return;
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + this.minIntervalMs;
+
+    if (startAt > now) {
+      await sleep(startAt - now);
+    }
+  }
+}
+
+function normalizeLimit(value: number | undefined): number {
+  if (value === undefined || !Number.isFinite(value) || value <= 0) {
+    return Infinity;
+  }
+  return value;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
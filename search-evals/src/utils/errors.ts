@@ -0,0 +1,181 @@
+/**
+ * Error classification for gateway calls
+ *
+ * Gateway SDKs surface failures in different shapes (Stainless APIError,
+ * Speakeasy YouError, Google ApiError, plain Errors with the status in the
+ * message). These helpers reduce them to a common SearchErrorType.
+ */
+
+import type { SearchErrorType, SearchResponse } from "../types.js";
+
+export interface ClassifiedError {
+  type: SearchErrorType;
+  message: string;
+  statusCode?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Error for a non-2xx HTTP response from a fetch-based client. Carries the
+ * status and headers so classifyError can read them like SDK errors.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Headers
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const RETRYABLE_TYPES: ReadonlySet<SearchErrorType> = new Set([
+  "rate_limited",
+  "timeout",
+  "server",
+]);
+
+/**
+ * Whether an error class is worth retrying (transient infrastructure issues)
+ */
+export function isRetryable(type: SearchErrorType | undefined): boolean {
+  return type !== undefined && RETRYABLE_TYPES.has(type);
+}
+
+/**
+ * Classify an error thrown by a gateway SDK
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error);
+  const statusCode = extractStatusCode(error, message);
+  const retryAfterMs = extractRetryAfterMs(error);
+
+  return {
+    type: classifyType(error, message, statusCode),
+    message,
+    statusCode,
+    retryAfterMs,
+  };
+}
+
+/**
+ * Build a failed SearchResponse from an error thrown during a gateway call
+ */
+export function errorResponse(error: unknown, startTime: number): SearchResponse {
+  const classified = classifyError(error);
+
+  return {
+    data: null,
+    latencyMs: Date.now() - startTime,
+    tokenCount: 0,
+    error: classified.message,
+    errorType: classified.type,
+    statusCode: classified.statusCode,
+    retryAfterMs: classified.retryAfterMs,
+  };
+}
+
+function classifyType(
+  error: unknown,
+  message: string,
+  statusCode: number | undefined
+): SearchErrorType {
+  if (statusCode !== undefined) {
+    if (statusCode === 429) return "rate_limited";
+    if (statusCode === 401 || statusCode === 403) return "auth";
+    if (statusCode === 408 || statusCode === 504) return "timeout";
+    if (statusCode >= 500) return "server";
+    if (statusCode >= 400) return "client";
+  }
+
+  const name = error instanceof Error ? error.name : "";
+  const code = getProperty(error, "code");
+
+  if (
+    /timeout|aborted/i.test(name) ||
+    code === "ETIMEDOUT" ||
+    code === "ECONNABORTED" ||
+    /timed? ?out/i.test(message)
+  ) {
+    return "timeout";
+  }
+  if (/rate.?limit|too many requests/i.test(message)) return "rate_limited";
+  // Gateways throw "<ENV> environment variable is not set" for a missing key
+  if (/api.?key|unauthori[sz]ed|forbidden|environment variable is not set/i.test(message)) {
+    return "auth";
+  }
+  if (error instanceof SyntaxError || /validation|parse/i.test(name)) {
+    return "parse";
+  }
+  if (
+    /connection/i.test(name) ||
+    code === "ECONNRESET" ||
+    code === "ECONNREFUSED" ||
+    code === "EAI_AGAIN" ||
+    code === "ENOTFOUND" ||
+    /fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN/i.test(message)
+  ) {
+    // Connection failures are transient infrastructure problems
+    return "server";
+  }
+
+  return "unknown";
+}
+
+function extractStatusCode(error: unknown, message: string): number | undefined {
+  const candidates = [
+    getProperty(error, "status"),
+    getProperty(error, "statusCode"),
+    getProperty(getProperty(error, "response"), "status"),
+  ];
+  for (const candidate of candidates) {
+    if (typeof candidate === "number" && candidate >= 100 && candidate < 600) {
+      return candidate;
+    }
+  }
+
+  // Tavily only reports the status in the message, e.g. "429 Error: {...}"
+  const match = message.match(/^(\d{3}) Error/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function extractRetryAfterMs(error: unknown): number | undefined {
+  const headers =
+    getProperty(error, "headers") ??
+    getProperty(getProperty(error, "response"), "headers");
+  const value = readHeader(headers, "retry-after");
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? String(value[0]) : String(value);
+    }
+  }
+  return undefined;
+}
+
+function getProperty(value: unknown, key: string): unknown {
+  if (!value || typeof value !== "object") return undefined;
+  return (value as Record<string, unknown>)[key];
+}
@@ -0,0 +1,37 @@
+/**
+ * Stable identifiers for queries and query × config results
+ */
+
+import { createHash } from "node:crypto";
+import type { SearchQuery, QueryResult } from "../types.js";
+
+/**
+ * A query's explicit id, or a stable id derived from its text and validity
+ * window, so two temporal windows of the same question get different ids
+ */
+export function queryIdFor(query: Pick<SearchQuery, "id" | "query" | "validFrom">): string {
+  if (query.id) return query.id;
+
+  const hash = createHash("sha1")
+    .update(`${query.query}\u0000${query.validFrom ?? ""}`)
+    .digest("hex");
+  return `q-${hash.slice(0, 10)}`;
+}
+
+/**
+ * Key identifying one query × config pair within a run. Repeated trials
+ * after the first get a "#<trial>" suffix, so trial 1 keeps the key of a
+ * single-trial run and the two can be compared.
+ */
+export function resultKey(queryId: string, configId: string, trial?: number): string {
+  const key = `${queryId}::${configId}`;
+  return trial !== undefined && trial > 1 ? `${key}#${trial}` : key;
+}
+
+/**
+ * Key for a stored result, deriving the query id for results saved before
+ * query ids were recorded
+ */
+export function resultKeyFor(result: QueryResult): string {
+  return resultKey(result.queryId ?? queryIdFor(result), result.configId, result.trial);
+}
@@ -0,0 +1,70 @@
+/**
+ * Helpers shared by the gateway result mappers
+ */
+
+import type { NormalizedResult } from "../types.js";
+
+export interface NormalizedResultInput {
+  url?: string | null;
+  title?: string | null;
+  snippet?: string | null;
+  publishedDate?: string | null;
+  source?: string | null;
+}
+
+/**
+ * Build ranked NormalizedResults from mapper output, dropping entries
+ * without a URL. Ranks are 1-based and follow the provider's order.
+ */
+export function rankResults(items: NormalizedResultInput[]): NormalizedResult[] {
+  const results: NormalizedResult[] = [];
+
+  for (const item of items) {
+    if (!item.url) continue;
+    results.push({
+      rank: results.length + 1,
+      url: item.url,
+      title: cleanText(item.title),
+      snippet: cleanText(item.snippet),
+      publishedDate: normalizeDate(item.publishedDate),
+      source: item.source ?? sourceDomain(item.url),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Extract the host name of a URL without a leading "www."
+ */
+export function sourceDomain(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize a provider date to ISO 8601, keeping date-only values as YYYY-MM-DD
+ */
+export function normalizeDate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Join text fragments into a single snippet
+ */
+export function joinSnippets(parts: (string | null | undefined)[] | null | undefined): string | undefined {
+  const text = (parts ?? []).filter((part): part is string => !!part).join("\n");
+  return text.length > 0 ? text : undefined;
+}
+
+function cleanText(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
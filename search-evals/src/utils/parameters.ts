@@ -0,0 +1,128 @@
+/**
+ * Gateway parameter validation
+ *
+ * Each gateway declares a ParameterSchema. Config parameters are checked
+ * against it (unknown keys, types, enums, ranges) and defaults are filled
+ * in, so a typo like `searchDepht` fails the run instead of silently
+ * falling back to the default.
+ */
+
+import type { ParameterSchema, ParameterSpec, ParameterType } from "../types.js";
+
+/**
+ * Config parameters that don't match the gateway's schema
+ */
+export class ParameterError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.join("; "));
+    this.name = "ParameterError";
+  }
+}
+
+function matchesType(value: unknown, type: ParameterType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+}
+
+/**
+ * Problems with one parameter value, or an empty list if it is valid
+ */
+function checkValue(name: string, value: unknown, spec: ParameterSpec): string[] {
+  const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+  if (!types.some((type) => matchesType(value, type))) {
+    return [`"${name}" must be ${types.join(" or ")}, got ${JSON.stringify(value)}`];
+  }
+
+  const problems: string[] = [];
+  if (spec.enum && !Array.isArray(value) && !spec.enum.includes(value as string | number | boolean)) {
+    problems.push(`"${name}" must be one of ${spec.enum.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`);
+  }
+  if (typeof value === "number") {
+    if (spec.min !== undefined && value < spec.min) {
+      problems.push(`"${name}" must be at least ${spec.min}, got ${value}`);
+    }
+    if (spec.max !== undefined && value > spec.max) {
+      problems.push(`"${name}" must be at most ${spec.max}, got ${value}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Edit distance between two strings, for "did you mean" hints
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function suggestName(name: string, known: string[]): string | undefined {
+  const normalized = (value: string): string => value.toLowerCase().replace(/[_-]/g, "");
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of known) {
+    const distance = editDistance(normalized(name), normalized(candidate));
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best?.candidate;
+}
+
+/**
+ * Validate parameters against a schema and fill in defaults
+ * @throws ParameterError listing every problem found
+ */
+export function resolveParameters<T extends object = Record<string, unknown>>(
+  schema: ParameterSchema,
+  parameters: Record<string, unknown>
+): T {
+  const problems: string[] = [];
+  const known = Object.keys(schema);
+
+  for (const name of Object.keys(parameters)) {
+    if (!(name in schema)) {
+      const suggestion = suggestName(name, known);
+      problems.push(
+        `unknown parameter "${name}"` +
+          (suggestion ? ` (did you mean "${suggestion}"?)` : ` (accepted: ${known.join(", ") || "none"})`)
+      );
+    }
+  }
+
+  const resolved: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = parameters[name];
+    if (value === undefined || value === null) {
+      if (spec.default !== undefined) resolved[name] = spec.default;
+      continue;
+    }
+    problems.push(...checkValue(name, value, spec));
+    resolved[name] = value;
+  }
+
+  if (problems.length > 0) {
+    throw new ParameterError(problems);
+  }
+  return resolved as T;
+}
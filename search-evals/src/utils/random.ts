@@ -0,0 +1,25 @@
+/**
+ * Seeded pseudo-random numbers, so sampling and bootstrap results are
+ * reproducible across runs
+ */
+
+/**
+ * Create a mulberry32 generator returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(random: () => number, max: number): number {
+  return Math.floor(random() * max);
+}
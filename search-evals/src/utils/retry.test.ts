@@ -0,0 +1,35 @@
+/**
+ * Backoff tests
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RetryOptions } from "../types.js";
+import { backoffDelayMs, exceedsRetryCap } from "./retry.js";
+
+const options: RetryOptions = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+describe("backoffDelayMs", () => {
+  it("stays within the exponential ceiling", () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = backoffDelayMs(3, options);
+      assert.ok(delay >= 0 && delay <= 4000, `delay ${delay}ms`);
+    }
+  });
+
+  it("waits at least as long as Retry-After asks", () => {
+    assert.ok(backoffDelayMs(1, options, 5000) >= 5000);
+  });
+
+  it("never waits longer than maxDelayMs, even when Retry-After asks", () => {
+    assert.equal(backoffDelayMs(1, options, 3_600_000), 30000);
+  });
+});
+
+describe("exceedsRetryCap", () => {
+  it("flags Retry-After hints above maxDelayMs", () => {
+    assert.equal(exceedsRetryCap(options, 3_600_000), true);
+    assert.equal(exceedsRetryCap(options, 30000), false);
+    assert.equal(exceedsRetryCap(options, undefined), false);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Retry utilities - exponential backoff with jitter
+ */
+
+import type { RetryOptions } from "../types.js";
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Uses "full jitter" exponential backoff: a random delay between 0 and
+ * baseDelayMs * 2^(attempt - 1), capped at maxDelayMs. A Retry-After hint
+ * from the server is treated as a lower bound, but never raises the delay
+ * above maxDelayMs (see exceedsRetryCap to give up instead).
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param options - Backoff settings
+ * @param retryAfterMs - Delay requested by the server, if any
+ */
+export function backoffDelayMs(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs?: number
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  const jittered = Math.round(Math.random() * ceiling);
+
+  if (retryAfterMs !== undefined) {
+    return Math.min(options.maxDelayMs, Math.max(Math.ceil(retryAfterMs), jittered));
+  }
+  return jittered;
+}
+
+/**
+ * Whether the server asked to wait longer than a retry may wait, so a retry
+ * after maxDelayMs would be refused again
+ */
+export function exceedsRetryCap(options: RetryOptions, retryAfterMs?: number): boolean {
+  return retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs;
+}
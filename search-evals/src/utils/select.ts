@@ -0,0 +1,79 @@
+/**
+ * Selection helpers for narrowing a run to some configs and queries
+ */
+
+import type { SearchConfig } from "../types.js";
+import { createRandom, randomInt } from "./random.js";
+
+/**
+ * Convert a glob with `*` and `?` wildcards into an anchored RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a value matches any of the glob patterns
+ */
+export function matchesAny(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(value));
+}
+
+/**
+ * Keep the configs whose id matches `configPatterns` and whose gateway
+ * matches `gatewayPatterns` (either list may be omitted)
+ * @throws Error if a pattern matches no config
+ */
+export function selectConfigs(
+  configs: SearchConfig[],
+  configPatterns: string[] = [],
+  gatewayPatterns: string[] = []
+): SearchConfig[] {
+  for (const pattern of configPatterns) {
+    if (!configs.some((config) => globToRegExp(pattern).test(config.id))) {
+      throw new Error(
+        `No config matches --config ${pattern}. Available: ${configs.map((c) => c.id).join(", ")}`
+      );
+    }
+  }
+  for (const pattern of gatewayPatterns) {
+    if (!configs.some((config) => globToRegExp(pattern).test(config.gateway))) {
+      const gateways = [...new Set(configs.map((c) => c.gateway))];
+      throw new Error(`No config uses a gateway matching --gateway ${pattern}. Available: ${gateways.join(", ")}`);
+    }
+  }
+
+  return configs.filter(
+    (config) =>
+      (configPatterns.length === 0 || matchesAny(config.id, configPatterns)) &&
+      (gatewayPatterns.length === 0 || matchesAny(config.gateway, gatewayPatterns))
+  );
+}
+
+/**
+ * Pick `count` items at random with a seeded shuffle, keeping their
+ * original order
+ */
+export function sampleItems<T>(items: T[], count: number, seed: number): T[] {
+  if (count >= items.length) return [...items];
+
+  const random = createRandom(seed);
+  const indexes = items.map((_, index) => index);
+  for (let i = 0; i < count; i++) {
+    const j = i + randomInt(random, indexes.length - i);
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+
+  return indexes
+    .slice(0, count)
+    .sort((a, b) => a - b)
+    .map((index) => items[index]);
+}
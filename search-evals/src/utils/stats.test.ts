@@ -0,0 +1,91 @@
+/**
+ * Statistics helper tests, including degenerate inputs
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  mean,
+  median,
+  percentile,
+  standardDeviation,
+  bootstrapMeanCI,
+  pairedBootstrap,
+  signFlipTest,
+  wilcoxonSignedRank,
+  MIN_PAIRS_FOR_P_VALUE,
+} from "./stats.js";
+import { createRandom } from "./random.js";
+
+describe("descriptive statistics", () => {
+  it("returns undefined for empty lists", () => {
+    assert.equal(mean([]), undefined);
+    assert.equal(median([]), undefined);
+    assert.equal(percentile([], 95), undefined);
+    assert.equal(standardDeviation([4]), undefined);
+  });
+
+  it("interpolates percentiles between ranks", () => {
+    assert.equal(median([1, 3, 2, 4]), 2.5);
+    assert.equal(percentile([10, 20, 30], 75), 25);
+    assert.equal(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])?.toFixed(3), "2.138");
+  });
+});
+
+describe("bootstrap intervals", () => {
+  it("collapses to the value for a single item or identical items", () => {
+    assert.deepEqual(bootstrapMeanCI([3]), { lower: 3, upper: 3 });
+    assert.deepEqual(pairedBootstrap([1, 1], { random: createRandom(1) }), {
+      n: 2,
+      meanDiff: 1,
+      ci: { lower: 1, upper: 1 },
+    });
+  });
+
+  it("has no result without pairs", () => {
+    assert.equal(pairedBootstrap([]), undefined);
+  });
+});
+
+describe("signFlipTest", () => {
+  it("reports no p-value below the minimum number of pairs", () => {
+    assert.deepEqual(signFlipTest([3]), { n: 1 });
+    assert.deepEqual(signFlipTest([1, 1]), { n: 2 });
+    assert.deepEqual(signFlipTest(new Array(MIN_PAIRS_FOR_P_VALUE - 1).fill(2)), { n: MIN_PAIRS_FOR_P_VALUE - 1 });
+  });
+
+  it("gives p = 1 when every pair ties", () => {
+    assert.equal(signFlipTest([0, 0, 0, 0, 0, 0]).pValue, 1);
+  });
+
+  it("gives the exact sign-test p-value when every difference has the same sign", () => {
+    // Only the all-positive and all-negative assignments are as extreme: 2 / 2^6
+    assert.equal(signFlipTest([1, 1, 1, 1, 1, 1]).pValue, 2 / 64);
+    assert.equal(signFlipTest([-2, -1, -3, -1, -2, -1]).pValue, 2 / 64);
+  });
+
+  it("does not call a balanced set of differences significant", () => {
+    assert.equal(signFlipTest([1, -1, 2, -2, 3, -3]).pValue, 1);
+  });
+
+  it("samples sign flips reproducibly above the exact limit", () => {
+    const diffs = Array.from({ length: 30 }, (_, i) => (i % 3 === 0 ? -1 : 1));
+    const first = signFlipTest(diffs, { random: createRandom(7) }).pValue!;
+    const second = signFlipTest(diffs, { random: createRandom(7) }).pValue!;
+
+    assert.equal(first, second);
+    assert.ok(first > 0.05 && first < 1, `p = ${first}`);
+    assert.ok(signFlipTest(new Array(30).fill(1), { random: createRandom(7) }).pValue! < 0.001);
+  });
+});
+
+describe("wilcoxonSignedRank", () => {
+  it("gives p = 1 when every pair ties", () => {
+    assert.deepEqual(wilcoxonSignedRank([0, 0, 0]), { n: 0, statistic: 0, pValue: 1 });
+  });
+
+  it("is exact for small samples with a shared sign", () => {
+    assert.deepEqual(wilcoxonSignedRank([3]), { n: 1, statistic: 1, pValue: 1 });
+    assert.equal(wilcoxonSignedRank([1, 1, 1, 1, 1, 1]).pValue, 2 / 64);
+  });
+});
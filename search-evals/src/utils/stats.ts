@@ -0,0 +1,258 @@
+/**
+ * Descriptive statistics, bootstrap intervals and paired significance tests
+ */
+
+import { randomInt } from "./random.js";
+
+/**
+ * Arithmetic mean, or undefined for an empty list
+ */
+export function mean(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Median, or undefined for an empty list
+ */
+export function median(values: number[]): number | undefined {
+  return percentile(values, 50);
+}
+
+/**
+ * Sample standard deviation, or undefined for fewer than two values
+ */
+export function standardDeviation(values: number[]): number | undefined {
+  if (values.length < 2) return undefined;
+  const center = mean(values)!;
+  const squares = values.reduce((sum, value) => sum + (value - center) ** 2, 0);
+  return Math.sqrt(squares / (values.length - 1));
+}
+
+/**
+ * Percentile (0-100) using linear interpolation between closest ranks,
+ * or undefined for an empty list
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * A two-sided confidence interval
+ */
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface BootstrapOptions {
+  /** Resamples to draw (default 2000) */
+  iterations?: number;
+  /** Confidence level (default 0.95) */
+  confidence?: number;
+  /** Random source; pass a seeded one for reproducible intervals */
+  random?: () => number;
+}
+
+const defaultBootstrapOptions = {
+  iterations: 2000,
+  confidence: 0.95,
+};
+
+/**
+ * Means of bootstrap resamples of a list
+ */
+function bootstrapMeans(values: number[], options: BootstrapOptions): number[] {
+  const iterations = options.iterations ?? defaultBootstrapOptions.iterations;
+  const random = options.random ?? Math.random;
+
+  const means: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (let j = 0; j < values.length; j++) {
+      sum += values[randomInt(random, values.length)];
+    }
+    means.push(sum / values.length);
+  }
+  return means;
+}
+
+/**
+ * Percentile bootstrap confidence interval for the mean, or undefined for
+ * an empty list
+ */
+export function bootstrapMeanCI(
+  values: number[],
+  options: BootstrapOptions = {}
+): Interval | undefined {
+  if (values.length === 0) return undefined;
+
+  const confidence = options.confidence ?? defaultBootstrapOptions.confidence;
+  const means = bootstrapMeans(values, options);
+  const tail = ((1 - confidence) / 2) * 100;
+  return { lower: percentile(means, tail)!, upper: percentile(means, 100 - tail)! };
+}
+
+export interface PairedBootstrapResult {
+  n: number;
+  meanDiff: number;
+  ci: Interval;
+}
+
+/**
+ * Paired bootstrap interval for the mean of per-item differences (a - b),
+ * or undefined when there are no pairs
+ */
+export function pairedBootstrap(
+  diffs: number[],
+  options: BootstrapOptions = {}
+): PairedBootstrapResult | undefined {
+  if (diffs.length === 0) return undefined;
+
+  const confidence = options.confidence ?? defaultBootstrapOptions.confidence;
+  const means = bootstrapMeans(diffs, options);
+  const tail = ((1 - confidence) / 2) * 100;
+
+  return {
+    n: diffs.length,
+    meanDiff: mean(diffs)!,
+    ci: { lower: percentile(means, tail)!, upper: percentile(means, 100 - tail)! },
+  };
+}
+
+/**
+ * Fewest pairs a p-value is reported for; below this even a unanimous
+ * result can't reach p < 0.05
+ */
+export const MIN_PAIRS_FOR_P_VALUE = 6;
+
+/** Pairs up to which every sign assignment is enumerated */
+const EXACT_SIGN_FLIP_PAIRS = 16;
+
+export interface SignFlipResult {
+  n: number;
+  /** Two-sided p-value for a mean difference of zero; undefined below MIN_PAIRS_FOR_P_VALUE */
+  pValue?: number;
+}
+
+/**
+ * Paired sign-flip permutation test over per-item differences (a - b).
+ * Under the null hypothesis each difference is as likely to have either
+ * sign, so the observed mean is compared with the means of the differences
+ * under random sign flips: all 2^n of them for up to 16 pairs, otherwise
+ * `iterations` random ones.
+ */
+export function signFlipTest(diffs: number[], options: BootstrapOptions = {}): SignFlipResult {
+  const n = diffs.length;
+  if (n < MIN_PAIRS_FOR_P_VALUE) return { n };
+
+  const observed = Math.abs(diffs.reduce((sum, d) => sum + d, 0));
+  // Tolerate rounding when a flipped sum equals the observed one
+  const atLeastObserved = (sum: number): boolean => Math.abs(sum) >= observed - 1e-9 * Math.max(1, observed);
+
+  if (n <= EXACT_SIGN_FLIP_PAIRS) {
+    let extreme = 0;
+    for (let mask = 0; mask < 2 ** n; mask++) {
+      let sum = 0;
+      for (let i = 0; i < n; i++) sum += mask & (1 << i) ? -diffs[i] : diffs[i];
+      if (atLeastObserved(sum)) extreme++;
+    }
+    return { n, pValue: extreme / 2 ** n };
+  }
+
+  const iterations = options.iterations ?? defaultBootstrapOptions.iterations;
+  const random = options.random ?? Math.random;
+  let extreme = 0;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let sum = 0;
+    for (const d of diffs) sum += random() < 0.5 ? -d : d;
+    if (atLeastObserved(sum)) extreme++;
+  }
+  // Add-one smoothing counts the observed assignment, keeping p above zero
+  return { n, pValue: (extreme + 1) / (iterations + 1) };
+}
+
+export interface WilcoxonResult {
+  /** Non-zero differences the test was computed on */
+  n: number;
+  /** Sum of the ranks of positive differences (W+) */
+  statistic: number;
+  /** Two-sided p-value; exact for up to 50 pairs, normal approximation above */
+  pValue: number;
+}
+
+/**
+ * Wilcoxon signed-rank test over per-item differences (a - b). Zero
+ * differences are dropped; tied magnitudes get average ranks.
+ */
+export function wilcoxonSignedRank(diffs: number[]): WilcoxonResult {
+  const nonZero = diffs.filter((d) => d !== 0);
+  const n = nonZero.length;
+  if (n === 0) return { n, statistic: 0, pValue: 1 };
+
+  // Average ranks of absolute differences
+  const order = nonZero
+    .map((d, index) => ({ abs: Math.abs(d), index }))
+    .sort((a, b) => a.abs - b.abs);
+  const ranks = new Array<number>(n);
+  const tieSizes: number[] = [];
+  for (let i = 0; i < n; ) {
+    let j = i;
+    while (j + 1 < n && order[j + 1].abs === order[i].abs) j++;
+    const rank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = rank;
+    tieSizes.push(j - i + 1);
+    i = j + 1;
+  }
+
+  const statistic = nonZero.reduce((sum, d, index) => (d > 0 ? sum + ranks[index] : sum), 0);
+
+  if (n <= 50) {
+    // Exact distribution of W+ over all sign assignments, on doubled ranks
+    // so average ranks stay integers
+    const doubled = ranks.map((rank) => Math.round(rank * 2));
+    const total = doubled.reduce((sum, rank) => sum + rank, 0);
+    let counts = new Array<number>(total + 1).fill(0);
+    counts[0] = 1;
+    for (const rank of doubled) {
+      const next = [...counts];
+      for (let sum = rank; sum <= total; sum++) next[sum] += counts[sum - rank];
+      counts = next;
+    }
+    const outcomes = 2 ** n;
+    const observed = Math.round(statistic * 2);
+    let lower = 0;
+    let upper = 0;
+    for (let sum = 0; sum <= total; sum++) {
+      if (sum <= observed) lower += counts[sum];
+      if (sum >= observed) upper += counts[sum];
+    }
+    return { n, statistic, pValue: Math.min(1, (2 * Math.min(lower, upper)) / outcomes) };
+  }
+
+  const expected = (n * (n + 1)) / 4;
+  const tieCorrection = tieSizes.reduce((sum, t) => sum + (t ** 3 - t), 0) / 48;
+  const sd = Math.sqrt((n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection);
+  const z = sd === 0 ? 0 : (Math.abs(statistic - expected) - 0.5) / sd;
+  return { n, statistic, pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))) };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,87 @@
+/**
+ * Table rendering for terminal, Markdown and HTML output
+ */
+
+export type Cell = string | number | undefined;
+
+export interface Table {
+  headers: string[];
+  rows: Cell[][];
+}
+
+function cellText(cell: Cell): string {
+  if (cell === undefined) return "–";
+  return String(cell);
+}
+
+/**
+ * Render a table as aligned plain text; numeric columns are right-aligned
+ */
+export function renderTextTable(table: Table): string {
+  const rows = table.rows.map((row) => row.map(cellText));
+  const widths = table.headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length))
+  );
+  const numeric = table.headers.map((_, column) =>
+    table.rows.every((row) => row[column] === undefined || typeof row[column] === "number" || /^[-+]?[\d.,]+(%|ms)?$/.test(String(row[column])))
+  );
+
+  const format = (cells: string[]): string =>
+    cells
+      .map((cell, column) =>
+        numeric[column] ? cell.padStart(widths[column]) : cell.padEnd(widths[column])
+      )
+      .join("  ")
+      .trimEnd();
+
+  return [
+    format(table.headers),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(format),
+  ].join("\n");
+}
+
+/**
+ * Render a table as GitHub-flavored Markdown
+ */
+export function renderMarkdownTable(table: Table): string {
+  const escape = (text: string): string => text.replace(/\|/g, "\\|");
+  return [
+    `| ${table.headers.map(escape).join(" | ")} |`,
+    `|${table.headers.map(() => "---").join("|")}|`,
+    ...table.rows.map((row) => `| ${row.map((cell) => escape(cellText(cell))).join(" | ")} |`),
+  ].join("\n");
+}
+
+/**
+ * Render a table as an HTML <table> element
+ */
+export function renderHtmlTable(table: Table): string {
+  const head = table.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("");
+  const body = table.rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cellText(cell))}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Format a number with fixed decimals, passing undefined through
+ */
+export function fixed(value: number | undefined, digits = 1): string | undefined {
+  return value === undefined ? undefined : value.toFixed(digits);
+}
+
+/**
+ * Format a 0-1 share as a percentage, passing undefined through
+ */
+export function percent(value: number | undefined): string | undefined {
+  return value === undefined ? undefined : `${(value * 100).toFixed(0)}%`;
+}